@@ -1,35 +1,46 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { createLLMProvider, isLLMProviderName, parseGenerationOptions } from "@/lib/llm-provider"
+import { createSSEResponse } from "@/lib/stream-utils"
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, model = "phi3" } = await request.json()
-
-    // Call local Ollama API
-    const response = await fetch("http://localhost:11434/api/generate", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        prompt: message,
-        stream: false,
-      }),
-    })
+    const { message, model, provider = "ollama", generationOptions, stream = false } = await request.json()
+
+    if (typeof message !== "string" || !message) {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 })
+    }
+
+    if (!isLLMProviderName(provider)) {
+      return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 })
+    }
+
+    const { options, error: optionsError } = parseGenerationOptions(generationOptions)
+    if (!options) {
+      return NextResponse.json({ error: optionsError }, { status: 400 })
+    }
+
+    // Defaults to the local Ollama backend
+    const llmProvider = createLLMProvider(provider)
+    const resolvedModel = model || options.model || llmProvider.defaultModel
+    const resolvedOptions = { ...options, model: resolvedModel }
 
-    if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status}`)
+    if (stream) {
+      return createSSEResponse(llmProvider.generateContentStream(message, resolvedOptions), {
+        model: resolvedModel,
+        provider: llmProvider.name,
+      })
     }
 
-    const data = await response.json()
+    const response = await llmProvider.generateContent(message, resolvedOptions)
 
     return NextResponse.json({
-      response: data.response,
-      model: data.model,
-      done: data.done,
+      response,
+      model: resolvedModel,
+      provider: llmProvider.name,
+      done: true,
     })
   } catch (error) {
     console.error("Chat API error:", error)
-    return NextResponse.json({ error: "Failed to get response from Ollama" }, { status: 500 })
+    return NextResponse.json({ error: "Failed to get response from LLM provider" }, { status: 500 })
   }
 }
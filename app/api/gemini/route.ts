@@ -1,28 +1,83 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createGeminiClient } from "@/lib/gemini-client";
+import { createLLMProvider, isLLMProviderName, parseChatTurns, parseGenerationOptions, type LLMInput } from "@/lib/llm-provider";
+import { DEFAULT_RAG_TEMPLATE_ID, PromptTemplateService } from "@/lib/prompt-templates";
+import { createSSEResponse } from "@/lib/stream-utils";
 
 export async function POST(request: NextRequest) {
   try {
-    const { prompt } = await request.json();
+    const { prompt, messages, provider, model, generationOptions, stream = false, promptTemplate, context, language } = await request.json();
 
-    if (!prompt) {
-      return NextResponse.json({ error: "Prompt is required" }, { status: 400 });
+    const hasMessages = Array.isArray(messages) && messages.length > 0;
+    if (!hasMessages && (typeof prompt !== "string" || !prompt)) {
+      return NextResponse.json({ error: "Prompt or messages are required" }, { status: 400 });
     }
 
-    console.log("🧪 Testing Gemini API with prompt:", prompt);
+    if (promptTemplate && (typeof promptTemplate !== "string" || !PromptTemplateService.getInstance().getTemplate(promptTemplate))) {
+      return NextResponse.json({ error: `Unknown prompt template: ${promptTemplate}` }, { status: 400 });
+    }
+
+    // Multi-turn conversations take precedence over a single prompt
+    let input: LLMInput = prompt;
+    if (hasMessages) {
+      const { turns, error: messagesError } = parseChatTurns(messages);
+      if (!turns) {
+        return NextResponse.json({ error: messagesError }, { status: 400 });
+      }
+      input = turns;
+    }
 
-    const geminiClient = createGeminiClient();
+    // Wrap the latest question with the selected (or default) template and retrieved context
+    if (context) {
+      const templateId = promptTemplate || DEFAULT_RAG_TEMPLATE_ID;
+      const turns = typeof input === "string" ? [{ role: "user" as const, content: input }] : input;
+      const earlier = turns.slice(0, -1);
+      const question = turns[turns.length - 1].content;
+      const rendered = PromptTemplateService.getInstance().render(templateId, {
+        context,
+        question,
+        history: earlier.map((t) => `${t.role === "user" ? "User" : "Assistant"}: ${t.content}`).join("\n\n"),
+        ...(language ? { language } : {}),
+      });
+      input = [...earlier, { role: "user", content: rendered }];
+      console.log(`🧩 Applied prompt template "${templateId}"`);
+    }
+
+    if (provider !== undefined && !isLLMProviderName(provider)) {
+      return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+    }
+
+    const { options, error: optionsError } = parseGenerationOptions(generationOptions);
+    if (!options) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+    if (typeof model === "string" && model) {
+      options.model = model;
+    }
+
+    const llmProvider = createLLMProvider(provider);
+    const resolvedModel = options.model || llmProvider.defaultModel;
+    console.log(`🧪 Testing ${llmProvider.name} API (${resolvedModel}) with input:`, input);
+
+    // Stream tokens as server-sent events when requested
+    if (stream) {
+      return createSSEResponse(llmProvider.generateContentStream(input, options), {
+        provider: llmProvider.name,
+        model: resolvedModel,
+      });
+    }
 
     // Test content generation
     const startTime = Date.now();
-    const response = await geminiClient.generateContent(prompt);
+    const response = await llmProvider.generateContent(input, options);
     const generationTime = Date.now() - startTime;
 
-    console.log(`✅ Gemini API test successful in ${generationTime}ms`);
+    console.log(`✅ ${llmProvider.name} API test successful in ${generationTime}ms`);
 
     return NextResponse.json({
       success: true,
       response,
+      provider: llmProvider.name,
+      model: resolvedModel,
       generationTime,
       timestamp: new Date().toISOString(),
     });
@@ -42,20 +97,21 @@ export async function POST(request: NextRequest) {
 // Add a GET endpoint for simple testing
 export async function GET() {
   try {
-    console.log("🧪 Testing Gemini API connection...");
-
-    const geminiClient = createGeminiClient();
+    const llmProvider = createLLMProvider();
+    console.log(`🧪 Testing ${llmProvider.name} API connection...`);
 
     // Test with a simple prompt
     const startTime = Date.now();
-    const response = await geminiClient.generateContent('Hello, this is a test. Please respond with "API is working" if you can see this message.');
+    const response = await llmProvider.generateContent('Hello, this is a test. Please respond with "API is working" if you can see this message.');
     const generationTime = Date.now() - startTime;
 
-    console.log(`✅ Gemini API connection test successful in ${generationTime}ms`);
+    console.log(`✅ ${llmProvider.name} API connection test successful in ${generationTime}ms`);
 
     return NextResponse.json({
       success: true,
       response,
+      provider: llmProvider.name,
+      model: llmProvider.defaultModel,
       generationTime,
       timestamp: new Date().toISOString(),
     });
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { LLM_PROVIDER_NAMES, createLLMProvider, getDefaultProviderName, getProviderConfigError } from "@/lib/llm-provider";
+
+// Lists the generation models available from every configured provider
+export async function GET() {
+  try {
+    const providers = await Promise.all(
+      LLM_PROVIDER_NAMES.map(async (name) => {
+        const configError = getProviderConfigError(name);
+        if (configError) {
+          return { provider: name, available: false, defaultModel: null, models: [], error: configError };
+        }
+
+        const llmProvider = createLLMProvider(name);
+        try {
+          const models = await llmProvider.listModels();
+          return { provider: name, available: true, defaultModel: llmProvider.defaultModel, models };
+        } catch (error) {
+          console.warn(`⚠️ Failed to list ${name} models:`, error);
+          return {
+            provider: name,
+            available: false,
+            defaultModel: llmProvider.defaultModel,
+            models: [],
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      defaultProvider: getDefaultProviderName(),
+      providers,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ Model listing failed:", error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PROMPT_TEMPLATE_VARIABLES, PromptTemplateService, validatePromptTemplate } from "@/lib/prompt-templates";
+
+export async function GET() {
+  try {
+    const templates = PromptTemplateService.getInstance().getTemplates();
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      variables: PROMPT_TEMPLATE_VARIABLES,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ Prompt templates fetch failed:", error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { action, template, id } = await request.json();
+
+    if (!action) {
+      return NextResponse.json({ error: "Action is required" }, { status: 400 });
+    }
+
+    const templateService = PromptTemplateService.getInstance();
+
+    switch (action) {
+      case "save": {
+        if (!template || typeof template.template !== "string") {
+          return NextResponse.json({ error: "Template is required" }, { status: 400 });
+        }
+        const invalid = validatePromptTemplate(template);
+        if (invalid) {
+          return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+        // A failed write is a server error, reported below
+        const saved = templateService.saveTemplate(template);
+        return NextResponse.json({
+          success: true,
+          message: "Template saved successfully",
+          template: saved,
+        });
+      }
+
+      case "delete":
+        if (!id) {
+          return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+        }
+        templateService.deleteTemplate(id);
+        return NextResponse.json({
+          success: true,
+          message: "Template deleted successfully",
+          templates: templateService.getTemplates(),
+        });
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("❌ Prompt template management failed:", error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
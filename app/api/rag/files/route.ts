@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createGoogleRAGService } from "@/lib/google-rag-service";
+import { IndexingJobService } from "@/lib/indexing-jobs";
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +17,7 @@ export async function POST(request: NextRequest) {
         if (!files || !Array.isArray(files)) {
           return NextResponse.json({ error: "Files array is required" }, { status: 400 });
         }
-        ragService.addFiles(files);
+        await ragService.addFiles(files);
         return NextResponse.json({
           success: true,
           message: "Files added successfully",
@@ -27,14 +28,20 @@ export async function POST(request: NextRequest) {
         if (!fileId) {
           return NextResponse.json({ error: "File ID is required" }, { status: 400 });
         }
-        ragService.removeFile(fileId);
+        if (IndexingJobService.getInstance().hasActiveJobs()) {
+          return NextResponse.json({ error: "Indexing is in progress; remove the file after it finishes" }, { status: 409 });
+        }
+        await ragService.removeFile(fileId);
         return NextResponse.json({
           success: true,
           message: "File removed successfully",
         });
 
       case "clear":
-        ragService.clear();
+        if (IndexingJobService.getInstance().hasActiveJobs()) {
+          return NextResponse.json({ error: "Indexing is in progress; clear the index after it finishes" }, { status: 409 });
+        }
+        await ragService.clear();
         return NextResponse.json({
           success: true,
           message: "RAG service cleared",
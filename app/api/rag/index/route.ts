@@ -1,37 +1,56 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createGoogleRAGService } from "@/lib/google-rag-service";
+import { IndexingJobService } from "@/lib/indexing-jobs";
 
 export async function POST(request: NextRequest) {
   try {
-    const { files } = await request.json();
+    const { action, files, fileIds } = await request.json();
 
-    if (!files || !Array.isArray(files)) {
-      return NextResponse.json({ error: "Files array is required" }, { status: 400 });
+    // Retry chunks whose embedding failed during a previous indexing run
+    if (action === "reembedFailed") {
+      if (IndexingJobService.getInstance().hasActiveJobs()) {
+        return NextResponse.json({ error: "Indexing is in progress; retry failed chunks after it finishes" }, { status: 409 });
+      }
+      const ragService = createGoogleRAGService();
+      const result = await ragService.reembedFailedChunks();
+
+      return NextResponse.json({
+        success: true,
+        message: `Re-embedded ${result.recovered} of ${result.attempted} failed chunks`,
+        ...result,
+        stats: ragService.getStats(),
+        isAvailable: ragService.isRAGAvailable(),
+        timestamp: new Date().toISOString(),
+      });
     }
 
-    console.log("🚀 RAG indexing request:", { fileCount: files.length });
+    // Either full file contents, or the IDs of files previously added through /api/rag/files
+    if (!Array.isArray(files) && !Array.isArray(fileIds)) {
+      return NextResponse.json({ error: "Files or fileIds array is required" }, { status: 400 });
+    }
 
     const ragService = createGoogleRAGService();
 
     // Add files to the service
-    ragService.addFiles(files);
-
-    // Index the files
-    await ragService.indexFiles();
-
-    // Get stats
-    const stats = ragService.getStats();
-    const isAvailable = ragService.isRAGAvailable();
+    if (Array.isArray(files)) {
+      await ragService.addFiles(files);
+    }
+    const indexedIds: string[] = Array.isArray(files) ? files.map((f: { id: string }) => f.id) : fileIds;
+    console.log("🚀 RAG indexing request:", { fileCount: indexedIds.length });
 
-    console.log(`✅ RAG indexing completed:`, stats);
+    // Indexing runs in the background; poll /api/rag/jobs/[id] for progress
+    const job = IndexingJobService.getInstance().createJob(indexedIds);
 
-    return NextResponse.json({
-      success: true,
-      message: "Files indexed successfully",
-      stats,
-      isAvailable,
-      timestamp: new Date().toISOString(),
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Indexing job queued",
+        jobId: job.id,
+        job,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("❌ RAG indexing failed:", error);
 
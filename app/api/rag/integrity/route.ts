@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createGoogleRAGService } from "@/lib/google-rag-service";
+import { IndexingJobService } from "@/lib/indexing-jobs";
+
+export async function GET() {
+  try {
+    const report = createGoogleRAGService().checkIntegrity();
+
+    return NextResponse.json({
+      success: true,
+      report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ RAG integrity check failed:", error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { action, reembed } = await request.json();
+
+    switch (action) {
+      case "repair": {
+        if (IndexingJobService.getInstance().hasActiveJobs()) {
+          return NextResponse.json({ error: "Indexing is in progress; repair the index after it finishes" }, { status: 409 });
+        }
+        const result = await createGoogleRAGService().repairIndex({ reembed: reembed !== false });
+        return NextResponse.json({
+          success: true,
+          message: result.after.healthy ? "Index repaired" : "Index repaired with remaining issues",
+          ...result,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("❌ RAG integrity repair failed:", error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
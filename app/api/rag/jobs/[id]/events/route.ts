@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexingJobService, isJobFinished } from "@/lib/indexing-jobs";
+import { createSSEEventResponse } from "@/lib/stream-utils";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Streams the job as server-sent events: `data: { "job": ... }` after every change, then `data: { "done": true, "job": ... }`
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const jobService = IndexingJobService.getInstance();
+  const job = jobService.getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: `Indexing job not found: ${id}`, timestamp: new Date().toISOString() }, { status: 404 });
+  }
+
+  return createSSEEventResponse((send, close) => {
+    const sendJob = (current: typeof job) => {
+      if (isJobFinished(current)) {
+        send({ done: true, job: current });
+        close();
+      } else {
+        send({ job: current });
+      }
+    };
+
+    sendJob(job);
+    return jobService.subscribe(id, sendJob);
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexingJobService } from "@/lib/indexing-jobs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = IndexingJobService.getInstance().getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: `Indexing job not found: ${id}`, timestamp: new Date().toISOString() }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    job,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { action } = await request.json();
+
+    switch (action) {
+      case "cancel": {
+        const job = IndexingJobService.getInstance().cancelJob(id);
+        if (!job) {
+          return NextResponse.json({ error: `Indexing job not found: ${id}` }, { status: 404 });
+        }
+        return NextResponse.json({
+          success: true,
+          message: job.status === "cancelled" ? "Indexing job cancelled" : "Cancellation requested",
+          job,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("❌ Indexing job request failed:", error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
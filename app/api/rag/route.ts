@@ -1,35 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createGoogleRAGService } from "@/lib/google-rag-service";
+import { createLLMProvider, getEmbeddingProviderName, getProviderConfigError, isLLMProviderName } from "@/lib/llm-provider";
+import { computeContextBudget } from "@/lib/token-budget";
+import { getDefaultRetrievalMode, isRetrievalMode, RETRIEVAL_MODES } from "@/lib/hybrid-search";
+import { buildContext, CONTEXT_CANDIDATES } from "@/lib/context-builder";
+import { getRerankerName } from "@/lib/reranker";
+import type { RAGSearchResultResponse } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
   try {
-    const { query, topK = 5 } = await request.json();
+    const { query, topK = 5, provider, model, historyTokens, answerTokens, mode = getDefaultRetrievalMode(), rerank = true } = await request.json();
 
     if (!query) {
       return NextResponse.json({ error: "Query is required" }, { status: 400 });
     }
 
-    console.log("🔍 RAG search request:", { query, topK });
-
-    // Check environment variable
-    if (!process.env.GEMINI_API_KEY) {
-      console.error("❌ GEMINI_API_KEY environment variable not set");
+    if (!isRetrievalMode(mode)) {
       return NextResponse.json(
-        {
-          error: "GEMINI_API_KEY environment variable not set",
-          searchResults: [],
-          context: "",
-        },
-        { status: 500 }
+        { error: `Unknown retrieval mode "${mode}". Use one of: ${RETRIEVAL_MODES.join(", ")}`, timestamp: new Date().toISOString() },
+        { status: 400 }
       );
     }
-    console.log("✅ GEMINI_API_KEY environment variable is set");
+
+    console.log("🔍 RAG search request:", { query, topK, mode, rerank });
+
+    // Check embedding provider configuration (semantic and hybrid search need query embeddings)
+    if (mode !== "keyword") {
+      const providerName = getEmbeddingProviderName();
+      const configError = getProviderConfigError(providerName);
+      if (configError) {
+        console.error(`❌ ${configError}`);
+        return NextResponse.json(
+          {
+            error: configError,
+            searchResults: [],
+            context: "",
+          },
+          { status: 500 }
+        );
+      }
+      console.log(`✅ Embedding provider "${providerName}" is configured`);
+    }
 
     const ragService = createGoogleRAGService();
 
-    // Check if RAG is available
+    // Check if RAG is available (keyword search only needs indexed chunks, not embeddings)
     console.log("🔍 Checking RAG availability...");
-    const isAvailable = await ragService.isRAGAvailable();
+    const isAvailable = mode === "keyword" ? ragService.getStats().totalChunks > 0 : ragService.isRAGAvailable();
     console.log("🔍 RAG availability result:", isAvailable);
 
     if (!isAvailable) {
@@ -44,26 +61,34 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Perform search
+    // One search serves both the results and the context, so a reranker is only asked once
     console.log("🔍 Performing RAG search...");
-    const searchResults = await ragService.search(query, topK);
+    const results = await ragService.search(query, Math.max(topK, CONTEXT_CANDIDATES), mode, rerank !== false);
+    const searchResults = results.slice(0, topK);
     console.log("🔍 Search results:", searchResults);
 
-    // Get context
-    console.log("🔍 Getting RAG context...");
-    const context = await ragService.getContext(query);
+    // Build context sized for the model that will answer
+    const answeringModel = model || createLLMProvider(isLLMProviderName(provider) ? provider : undefined).defaultModel;
+    const maxTokens = computeContextBudget({ model: answeringModel, historyTokens, answerTokens });
+    console.log(`🔍 Building RAG context (budget ${maxTokens} tokens for ${answeringModel})...`);
+    const context = buildContext(results, maxTokens);
     console.log("🔍 Context retrieved:", context.length, "characters");
 
     console.log(`✅ RAG search completed: ${searchResults.length} results`);
 
     return NextResponse.json({
       success: true,
-      searchResults: searchResults.map((result) => ({
+      searchResults: searchResults.map((result): RAGSearchResultResponse => ({
         fileName: result.chunk.fileName,
         content: result.content,
         score: result.score,
+        scores: result.scores,
       })),
+      mode,
+      // Reranker that re-scored the results, null when they are in retrieval order
+      reranker: results.some((result) => result.scores?.rerank !== undefined) ? getRerankerName() : null,
       context,
+      contextTokenBudget: maxTokens,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -6,6 +6,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
+import type { IndexIntegrityReport, RetrievalMode, SearchResult } from '@/lib/types'
+
+interface SearchTestResult {
+    fileName: string
+    content: string
+    score: number
+    scores?: SearchResult['scores']
+}
 
 export default function DebugPage() {
     const [apiTestResult, setApiTestResult] = useState<any>(null)
@@ -13,6 +21,14 @@ export default function DebugPage() {
     const [testPrompt, setTestPrompt] = useState('Hello, this is a test message.')
     const [ragTestResult, setRagTestResult] = useState<any>(null)
     const [ragLoading, setRagLoading] = useState(false)
+    const [integrityReport, setIntegrityReport] = useState<IndexIntegrityReport | null>(null)
+    const [integrityResult, setIntegrityResult] = useState<any>(null)
+    const [integrityLoading, setIntegrityLoading] = useState(false)
+    const [searchQuery, setSearchQuery] = useState('')
+    const [searchMode, setSearchMode] = useState<RetrievalMode>('hybrid')
+    const [searchRerank, setSearchRerank] = useState(true)
+    const [searchResponse, setSearchResponse] = useState<any>(null)
+    const [searchLoading, setSearchLoading] = useState(false)
 
     const testGeminiAPI = async () => {
         setApiLoading(true)
@@ -78,6 +94,71 @@ export default function DebugPage() {
         }
     }
 
+    const testSearch = async () => {
+        setSearchLoading(true)
+        setSearchResponse(null)
+
+        try {
+            const response = await fetch('/api/rag', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query: searchQuery, topK: 5, mode: searchMode, rerank: searchRerank })
+            })
+
+            const result = await response.json()
+            setSearchResponse(result)
+        } catch (error) {
+            setSearchResponse({ error: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+            setSearchLoading(false)
+        }
+    }
+
+    const checkIndexIntegrity = async () => {
+        setIntegrityLoading(true)
+        setIntegrityResult(null)
+
+        try {
+            const response = await fetch('/api/rag/integrity')
+            const result = await response.json()
+            setIntegrityReport(result.report || null)
+            if (!response.ok) setIntegrityResult(result)
+        } catch (error) {
+            setIntegrityResult({ error: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+            setIntegrityLoading(false)
+        }
+    }
+
+    const repairIndex = async () => {
+        setIntegrityLoading(true)
+        setIntegrityResult(null)
+
+        try {
+            const response = await fetch('/api/rag/integrity', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action: 'repair' })
+            })
+
+            const result = await response.json()
+            setIntegrityResult(result)
+            if (result.after) setIntegrityReport(result.after)
+        } catch (error) {
+            setIntegrityResult({ error: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+            setIntegrityLoading(false)
+        }
+    }
+
+    const integrityRows = integrityReport ? [
+        { label: 'Orphaned vectors', ids: integrityReport.orphanedEmbeddings },
+        { label: 'Chunks without vectors', ids: integrityReport.missingEmbeddings },
+        { label: 'Dimension mismatches', ids: integrityReport.dimensionMismatches.map(m => `${m.chunkId} (${m.dimensions})`) },
+        { label: 'Stale failure records', ids: integrityReport.staleFailedChunkIds },
+        { label: 'Failed chunks (re-embeddable)', ids: integrityReport.failedChunks },
+    ] : []
+
     return (
         <div className="container mx-auto p-6 space-y-6">
             <div className="text-center">
@@ -177,6 +258,152 @@ export default function DebugPage() {
                 </Card>
             </div>
 
+            {/* Search Test */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Search Test</CardTitle>
+                    <CardDescription>
+                        Run a query against the index and see the scores behind each result: the keyword and semantic scores, and with a reranker (RAG_RERANKER) the score it was retrieved with and its reranked relevance
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex gap-2">
+                        <Input
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && searchQuery.trim() && testSearch()}
+                            placeholder="Search query"
+                        />
+                        <Button onClick={testSearch} disabled={searchLoading || !searchQuery.trim()}>
+                            {searchLoading ? 'Searching...' : 'Search'}
+                        </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {(['keyword', 'semantic', 'hybrid'] as RetrievalMode[]).map(mode => (
+                            <Button
+                                key={mode}
+                                size="sm"
+                                variant={searchMode === mode ? 'default' : 'outline'}
+                                onClick={() => setSearchMode(mode)}
+                            >
+                                {mode}
+                            </Button>
+                        ))}
+                        <Button
+                            size="sm"
+                            variant={searchRerank ? 'default' : 'outline'}
+                            onClick={() => setSearchRerank(!searchRerank)}
+                        >
+                            Rerank {searchRerank ? 'on' : 'off'}
+                        </Button>
+                    </div>
+
+                    {searchResponse && (searchResponse.error ? (
+                        <div className="p-3 bg-muted rounded-lg">
+                            <Badge variant="destructive">Error</Badge>
+                            <p className="text-sm mt-2">{searchResponse.error}</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2 text-sm">
+                            <div className="flex items-center gap-2">
+                                <Badge variant="secondary">{searchResponse.mode}</Badge>
+                                <Badge variant="secondary">
+                                    {searchResponse.reranker ? `reranked by ${searchResponse.reranker}` : 'retrieval order'}
+                                </Badge>
+                            </div>
+                            {searchResponse.searchResults.length === 0 && (
+                                <p className="text-muted-foreground">No results</p>
+                            )}
+                            {searchResponse.searchResults.map((result: SearchTestResult, idx: number) => (
+                                <div key={idx} className="p-2 bg-muted rounded-lg">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="font-medium">{idx + 1}. {result.fileName}</span>
+                                        <Badge>score {result.score.toFixed(3)}</Badge>
+                                        {result.scores?.keyword !== undefined && <Badge variant="outline">keyword {result.scores.keyword.toFixed(2)}</Badge>}
+                                        {result.scores?.semantic !== undefined && <Badge variant="outline">semantic {result.scores.semantic.toFixed(3)}</Badge>}
+                                        {result.scores?.retrieval !== undefined && <Badge variant="outline">retrieval {result.scores.retrieval.toFixed(3)}</Badge>}
+                                        {result.scores?.rerank !== undefined && <Badge variant="outline">rerank {result.scores.rerank.toFixed(2)}</Badge>}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground mt-1 line-clamp-3">{result.content}</p>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+
+            {/* Index Integrity */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Index Integrity</CardTitle>
+                    <CardDescription>
+                        Check that every chunk has exactly one vector of the expected size, and repair the index if not
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex gap-2">
+                        <Button
+                            onClick={checkIndexIntegrity}
+                            disabled={integrityLoading}
+                            className="flex-1"
+                        >
+                            {integrityLoading ? 'Checking...' : 'Check Integrity'}
+                        </Button>
+                        <Button
+                            onClick={repairIndex}
+                            disabled={integrityLoading || !integrityReport || integrityReport.healthy}
+                            variant="outline"
+                        >
+                            Repair
+                        </Button>
+                    </div>
+
+                    {integrityReport && (
+                        <div className="space-y-2 text-sm">
+                            <div className="flex items-center gap-2">
+                                <Badge variant={integrityReport.healthy ? 'default' : 'destructive'}>
+                                    {integrityReport.healthy ? 'Healthy' : 'Issues found'}
+                                </Badge>
+                                <Badge variant="secondary">
+                                    {integrityReport.totalEmbeddings} vectors / {integrityReport.totalChunks} chunks
+                                </Badge>
+                                {integrityReport.expectedDimensions && (
+                                    <Badge variant="secondary">
+                                        {integrityReport.expectedDimensions} dimensions
+                                    </Badge>
+                                )}
+                            </div>
+                            {integrityRows.map(row => (
+                                <div key={row.label}>
+                                    <div className="flex items-center justify-between">
+                                        <span>{row.label}:</span>
+                                        <span className="font-medium">{row.ids.length}</span>
+                                    </div>
+                                    {row.ids.length > 0 && (
+                                        <p className="text-xs text-muted-foreground truncate">
+                                            {row.ids.slice(0, 5).join(', ')}{row.ids.length > 5 ? ', ...' : ''}
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {integrityResult && (
+                        <div className="mt-4 p-3 bg-muted rounded-lg">
+                            <div className="flex items-center gap-2 mb-2">
+                                <Badge variant={integrityResult.success ? 'default' : 'destructive'}>
+                                    {integrityResult.success ? 'Success' : 'Error'}
+                                </Badge>
+                            </div>
+                            <pre className="text-xs overflow-auto">
+                                {JSON.stringify(integrityResult.success ? { message: integrityResult.message, removedEmbeddings: integrityResult.removedEmbeddings, reembed: integrityResult.reembed } : integrityResult, null, 2)}
+                            </pre>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
             {/* Environment Check */}
             <Card>
                 <CardHeader>
@@ -5,6 +5,7 @@ import { ChatInterface } from "@/components/chatUi"
 import { Sidebar } from "@/components/sidebarUi"
 import { createClientRAGService } from "@/lib/client-rag-service"
 import type { FileInfo } from "@/lib/types"
+import type { IndexingJob } from "@/lib/indexing-jobs"
 import { memoryUtils } from "@/lib/utils"
 
 export default function Home() {
@@ -12,6 +13,7 @@ export default function Home() {
   const [files, setFiles] = useState<FileInfo[]>([])
   const [isClient, setIsClient] = useState(false)
   const [isIndexing, setIsIndexing] = useState(false)
+  const [indexingJob, setIndexingJob] = useState<IndexingJob | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [memoryWarning, setMemoryWarning] = useState<string | null>(null)
 
@@ -85,6 +87,7 @@ export default function Home() {
     }
 
     setIsIndexing(true)
+    setIndexingJob(null) // Clear progress of the previous job
     setError(null) // Clear previous errors
     setMemoryWarning(null) // Clear memory warnings
 
@@ -94,48 +97,25 @@ export default function Home() {
       indexed: false // Reset indexed status to show progress
     })))
 
-    // Add progress tracking with more aggressive timeout
-    const startTime = Date.now()
-    const maxIndexingTime = 60000; // 1 minute max for indexing
-
-    const progressInterval = setInterval(() => {
-      const elapsed = Date.now() - startTime
-      console.log(`⏱️ Indexing in progress... Elapsed time: ${elapsed}ms`)
-
-      // Force timeout after 1 minute to prevent infinite hanging
-      if (elapsed > maxIndexingTime) {
-        console.error('⏰ Indexing timeout reached (1 minute)')
-        clearInterval(progressInterval)
-        setIsIndexing(false)
-        setError('Indexing timeout - process took too long. Please try with a smaller file or check the console for errors.')
-
-        // Force cleanup
-        memoryUtils.forceGC();
-        return
-      }
-    }, 2000) // Log every 2 seconds for more frequent updates
-
     try {
       console.log('🔍 Calling ragService.indexFiles()...')
 
-      // Create a promise with timeout
-      const indexingPromise = ragService.indexFiles();
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Indexing timeout - process took too long')), maxIndexingTime);
-      });
-
-      // Race between indexing and timeout
-      await Promise.race([indexingPromise, timeoutPromise]);
+      // Indexing runs as a background job on the server; its events drive the progress shown in the sidebar
+      const job = await ragService.indexFiles(setIndexingJob)
 
-      console.log('✅ Google RAG indexing completed successfully!')
+      console.log(`✅ Google RAG indexing job ${job.status}`)
       console.log('📊 RAG service stats:', ragService.getStats())
       console.log('🔍 Debug index info:', ragService.debugIndex())
 
       // Update files to reflect indexed status
-      setFiles(prev => prev.map(file => ({
-        ...file,
-        indexed: !file.error
-      })))
+      setFiles(prev => prev.map(file => {
+        const progress = job.files.find(f => f.fileId === file.id)
+        return {
+          ...file,
+          indexed: progress?.phase === 'done' || progress?.phase === 'unchanged',
+          indexError: file.error ? undefined : progress?.error
+        }
+      }))
 
       console.log('🔄 UI updated - files marked as indexed')
 
@@ -165,12 +145,20 @@ export default function Home() {
       // Force garbage collection on error
       memoryUtils.forceGC();
     } finally {
-      clearInterval(progressInterval)
       setIsIndexing(false)
       console.log('🏁 Indexing process finished (finally block executed)')
     }
   }, [ragService])
 
+  const handleCancelIndexing = useCallback(async () => {
+    try {
+      await ragService.cancelIndexing()
+    } catch (error) {
+      console.error('❌ Failed to cancel indexing:', error)
+      setError(error instanceof Error ? error.message : 'Failed to cancel indexing')
+    }
+  }, [ragService])
+
   // Don't render until we're on the client side
   if (!isClient) {
     return (
@@ -193,7 +181,9 @@ export default function Home() {
           onFileAdd={handleFileAdd}
           onFileRemove={handleFileRemove}
           onIndexFiles={handleIndexFiles}
+          onCancelIndexing={handleCancelIndexing}
           isIndexing={isIndexing}
+          indexingJob={indexingJob}
         />
 
         {/* Memory Warning Display */}
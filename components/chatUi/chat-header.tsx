@@ -1,13 +1,27 @@
 "use client"
 
 import { Bot, Database } from "lucide-react"
+import { PromptSettings } from "./prompt-settings"
+import { ModelPicker } from "./model-picker"
+import type { ModelSelection } from "./types"
 
 interface ChatHeaderProps {
     isRAGAvailable: boolean
     indexedFilesCount: number
+    promptTemplateId: string
+    onPromptTemplateChange: (templateId: string) => void
+    modelSelection: ModelSelection | null
+    onModelSelectionChange: (selection: ModelSelection | null) => void
 }
 
-export function ChatHeader({ isRAGAvailable, indexedFilesCount }: ChatHeaderProps) {
+export function ChatHeader({
+    isRAGAvailable,
+    indexedFilesCount,
+    promptTemplateId,
+    onPromptTemplateChange,
+    modelSelection,
+    onModelSelectionChange,
+}: ChatHeaderProps) {
     return (
         <div className="border-b bg-card p-4">
             <div className="flex items-center gap-3">
@@ -16,7 +30,9 @@ export function ChatHeader({ isRAGAvailable, indexedFilesCount }: ChatHeaderProp
                 </div>
                 <div>
                     <h1 className="text-xl font-semibold">NoCodeChatGPT</h1>
-                    <p className="text-sm text-muted-foreground">Powered by Google Gemini</p>
+                    <p className="text-sm text-muted-foreground">
+                        {modelSelection ? `Powered by ${modelSelection.model} (${modelSelection.provider})` : "Powered by Google Gemini"}
+                    </p>
                     {isRAGAvailable && (
                         <div className="flex items-center gap-2 mt-1">
                             <Database className="w-3 h-3 text-green-600" />
@@ -27,7 +43,11 @@ export function ChatHeader({ isRAGAvailable, indexedFilesCount }: ChatHeaderProp
                         </div>
                     )}
                 </div>
-                <div className="ml-auto text-right">
+                <div className="ml-auto flex items-center gap-2">
+                    <ModelPicker value={modelSelection} onChange={onModelSelectionChange} />
+                    <PromptSettings promptTemplateId={promptTemplateId} onPromptTemplateChange={onPromptTemplateChange} />
+                </div>
+                <div className="text-right">
                     <p className="text-sm text-muted-foreground">学生番号: 22M25202</p>
                     <p className="text-sm text-muted-foreground">名前: 平松　孝博</p>
                 </div>
@@ -9,6 +9,31 @@ interface ChatMessageProps {
     message: Message
 }
 
+type SourceResult = NonNullable<Message["searchResults"]>[number]
+
+// Reranked sources show the reranker's relevance next to the score they were retrieved with
+function formatScore(result: SourceResult): string {
+    const scores = result.scores
+    if (scores?.rerank !== undefined) {
+        const retrieval = scores.retrieval !== undefined ? `, retrieval ${scores.retrieval.toFixed(2)}` : ""
+        return `relevance ${Math.round(scores.rerank * 100)}%${retrieval}`
+    }
+    return `score: ${result.score.toFixed(1)}`
+}
+
+// Every score behind the ranking, shown on hover
+function describeScores(result: SourceResult): string {
+    const scores = result.scores || {}
+    return [
+        scores.keyword !== undefined && `keyword ${scores.keyword.toFixed(2)}`,
+        scores.semantic !== undefined && `semantic ${scores.semantic.toFixed(3)}`,
+        scores.retrieval !== undefined && `retrieval ${scores.retrieval.toFixed(3)}`,
+        scores.rerank !== undefined && `rerank ${scores.rerank.toFixed(2)}`,
+    ]
+        .filter(Boolean)
+        .join(", ")
+}
+
 export function ChatMessage({ message }: ChatMessageProps) {
     const isUser = message.role === "user"
 
@@ -34,7 +59,12 @@ export function ChatMessage({ message }: ChatMessageProps) {
                         </div>
                     )}
                     <div className="flex-1">
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        <p className="text-sm whitespace-pre-wrap">
+                            {message.content}
+                            {message.isStreaming && (
+                                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-muted-foreground animate-pulse" />
+                            )}
+                        </p>
 
                         {/* Show search results summary */}
                         {message.searchResults && message.isRAG && message.searchResults.length > 0 && (
@@ -44,11 +74,11 @@ export function ChatMessage({ message }: ChatMessageProps) {
                                     <span className="font-medium">Sources found:</span>
                                 </div>
                                 {message.searchResults.map((result, idx) => (
-                                    <div key={idx} className="text-blue-700 dark:text-blue-300 mb-1">
+                                    <div key={idx} className="text-blue-700 dark:text-blue-300 mb-1" title={describeScores(result) || undefined}>
                                         <span className="font-medium">{result.fileName}</span>
                                         <span className="text-blue-600 dark:text-blue-400">
                                             {" "}
-                                            (score: {result.score.toFixed(1)})
+                                            ({formatScore(result)})
                                         </span>
                                     </div>
                                 ))}
@@ -56,14 +86,21 @@ export function ChatMessage({ message }: ChatMessageProps) {
                         )}
 
                         {/* Show full context */}
-                        {message.context && message.isRAG && (
+                        {((message.context && message.isRAG) || message.searchQuery) && (
                             <details className="mt-2">
                                 <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
                                     Show RAG context
                                 </summary>
-                                <div className="mt-2 p-2 bg-muted/50 rounded text-xs text-muted-foreground max-h-32 overflow-y-auto">
-                                    {message.context}
-                                </div>
+                                {message.searchQuery && (
+                                    <div className="mt-2 text-xs text-muted-foreground">
+                                        <span className="font-medium">Search query:</span> {message.searchQuery}
+                                    </div>
+                                )}
+                                {message.context && message.isRAG && (
+                                    <div className="mt-2 p-2 bg-muted/50 rounded text-xs text-muted-foreground max-h-32 overflow-y-auto">
+                                        {message.context}
+                                    </div>
+                                )}
                             </details>
                         )}
                     </div>
@@ -5,7 +5,8 @@ import { ChatHeader } from "./chat-header"
 import { ChatMessages } from "./chat-messages"
 import { ChatInput } from "./chat-input"
 import { createChatService } from "../../lib/chat-service"
-import type { Message } from "./types"
+import type { Message, ModelSelection } from "./types"
+import type { LLMProviderName } from "@/lib/llm-provider"
 
 interface ChatInterfaceProps {
     ragService: any
@@ -16,8 +17,11 @@ export function ChatInterface({ ragService, files }: ChatInterfaceProps) {
     const [messages, setMessages] = useState<Message[]>([])
     const [input, setInput] = useState("")
     const [isLoading, setIsLoading] = useState(false)
+    const [promptTemplateId, setPromptTemplateId] = useState("rag-default")
+    const [modelSelection, setModelSelection] = useState<ModelSelection | null>(null)
 
-    const chatService = createChatService()
+    // Created once so conversation memory (summaries of older turns) survives re-renders
+    const [chatService] = useState(() => createChatService({ historyWindow: 10 }))
     const isRAGAvailable = ragService.isRAGAvailable()
     const indexedFilesCount = files.filter((f: any) => f.indexed).length
 
@@ -32,15 +36,26 @@ export function ChatInterface({ ragService, files }: ChatInterfaceProps) {
             timestamp: new Date(),
         }
 
+        const history = messages
         setMessages((prev) => [...prev, userMessage])
         setInput("")
         setIsLoading(true)
 
+        // Replace the message with the same id, or append it if it is new
+        const upsertMessage = (message: Message) => {
+            setMessages((prev) =>
+                prev.some((m) => m.id === message.id)
+                    ? prev.map((m) => (m.id === message.id ? message : m))
+                    : [...prev, message]
+            )
+        }
+
         await chatService.sendMessage(
             userMessage.content,
+            history,
             ragService,
             (assistantMessage) => {
-                setMessages((prev) => [...prev, assistantMessage])
+                upsertMessage(assistantMessage)
                 setIsLoading(false)
             },
             (error) => {
@@ -49,20 +64,36 @@ export function ChatInterface({ ragService, files }: ChatInterfaceProps) {
                     content: `Error: ${error}`,
                     role: "assistant",
                     timestamp: new Date(),
+                    isError: true,
                 }
-                setMessages((prev) => [...prev, errorMessage])
+                setMessages((prev) => [...prev.map((m) => (m.isStreaming ? { ...m, isStreaming: false } : m)), errorMessage])
                 setIsLoading(false)
+            },
+            upsertMessage,
+            {
+                promptTemplateId,
+                provider: modelSelection?.provider as LLMProviderName | undefined,
+                generationOptions: modelSelection ? { model: modelSelection.model } : undefined,
             }
         )
     }
 
+    const isStreaming = messages.some((m) => m.isStreaming)
+
     return (
         <div className="flex flex-col w-full max-w-4xl mx-auto h-full">
-            <ChatHeader isRAGAvailable={isRAGAvailable} indexedFilesCount={indexedFilesCount} />
+            <ChatHeader
+                isRAGAvailable={isRAGAvailable}
+                indexedFilesCount={indexedFilesCount}
+                promptTemplateId={promptTemplateId}
+                onPromptTemplateChange={setPromptTemplateId}
+                modelSelection={modelSelection}
+                onModelSelectionChange={setModelSelection}
+            />
 
             <ChatMessages
                 messages={messages}
-                isLoading={isLoading}
+                isLoading={isLoading && !isStreaming}
                 isRAGAvailable={isRAGAvailable}
                 indexedFilesCount={indexedFilesCount}
             />
@@ -0,0 +1,82 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectLabel,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import type { ModelSelection } from "./types"
+
+interface ProviderModels {
+    provider: string
+    available: boolean
+    defaultModel: string | null
+    models: string[]
+    error?: string
+}
+
+interface ModelPickerProps {
+    value: ModelSelection | null
+    onChange: (selection: ModelSelection | null) => void
+}
+
+const DEFAULT_VALUE = "default"
+const SEPARATOR = "::"
+
+export function ModelPicker({ value, onChange }: ModelPickerProps) {
+    const [providers, setProviders] = useState<ProviderModels[]>([])
+    const [defaultProvider, setDefaultProvider] = useState<string>("")
+
+    useEffect(() => {
+        const fetchModels = async () => {
+            try {
+                const response = await fetch("/api/models")
+                const data = await response.json()
+                if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+
+                setProviders(data.providers)
+                setDefaultProvider(data.defaultProvider)
+            } catch (error) {
+                console.error("Failed to load models:", error)
+            }
+        }
+        fetchModels()
+    }, [])
+
+    const handleChange = (selected: string) => {
+        if (selected === DEFAULT_VALUE) {
+            onChange(null)
+            return
+        }
+        const [provider, model] = selected.split(SEPARATOR)
+        onChange({ provider, model })
+    }
+
+    const available = providers.filter((p) => p.available && p.models.length > 0)
+
+    return (
+        <Select value={value ? `${value.provider}${SEPARATOR}${value.model}` : DEFAULT_VALUE} onValueChange={handleChange}>
+            <SelectTrigger size="sm" className="w-56">
+                <SelectValue placeholder="Select a model" />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value={DEFAULT_VALUE}>Default{defaultProvider ? ` (${defaultProvider})` : ""}</SelectItem>
+                {available.map((p) => (
+                    <SelectGroup key={p.provider}>
+                        <SelectLabel>{p.provider}</SelectLabel>
+                        {p.models.map((model) => (
+                            <SelectItem key={`${p.provider}${SEPARATOR}${model}`} value={`${p.provider}${SEPARATOR}${model}`}>
+                                {model}
+                            </SelectItem>
+                        ))}
+                    </SelectGroup>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
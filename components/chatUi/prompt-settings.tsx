@@ -0,0 +1,197 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Settings } from "lucide-react"
+import type { PromptTemplate } from "@/lib/prompt-templates"
+
+interface PromptSettingsProps {
+    promptTemplateId: string
+    onPromptTemplateChange: (templateId: string) => void
+}
+
+const NEW_TEMPLATE_ID = "__new__"
+
+export function PromptSettings({ promptTemplateId, onPromptTemplateChange }: PromptSettingsProps) {
+    const [open, setOpen] = useState(false)
+    const [templates, setTemplates] = useState<PromptTemplate[]>([])
+    const [variables, setVariables] = useState<string[]>([])
+    const [editingId, setEditingId] = useState(promptTemplateId)
+    const [draft, setDraft] = useState({ id: "", name: "", language: "English", template: "" })
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const loadDraft = useCallback((id: string, list: PromptTemplate[]) => {
+        const template = list.find((t) => t.id === id)
+        setEditingId(id)
+        setError(null)
+        setDraft(
+            template
+                ? { id: template.id, name: template.name, language: template.language, template: template.template }
+                : { id: "", name: "", language: "English", template: "{context}\n\n{question}" }
+        )
+    }, [])
+
+    const fetchTemplates = useCallback(async () => {
+        try {
+            const response = await fetch("/api/prompts")
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+
+            setTemplates(data.templates)
+            setVariables(data.variables)
+            loadDraft(promptTemplateId, data.templates)
+        } catch (fetchError) {
+            console.error("Failed to load prompt templates:", fetchError)
+            setError(fetchError instanceof Error ? fetchError.message : "Failed to load prompt templates")
+        }
+    }, [promptTemplateId, loadDraft])
+
+    useEffect(() => {
+        if (open) fetchTemplates()
+    }, [open, fetchTemplates])
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setError(null)
+
+        try {
+            const id = draft.id || draft.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || `template-${Date.now()}`
+            const response = await fetch("/api/prompts", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ action: "save", template: { ...draft, id } }),
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+
+            onPromptTemplateChange(data.template.id)
+            setOpen(false)
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : "Failed to save template")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleDelete = async () => {
+        setError(null)
+
+        try {
+            const response = await fetch("/api/prompts", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ action: "delete", id: editingId }),
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+
+            setTemplates(data.templates)
+            // Built-in templates are reset to their default text, custom ones disappear
+            const stillExists = data.templates.some((t: PromptTemplate) => t.id === editingId)
+            const nextId = stillExists ? editingId : data.templates[0].id
+            loadDraft(nextId, data.templates)
+            if (!stillExists && promptTemplateId === editingId) onPromptTemplateChange(nextId)
+        } catch (deleteError) {
+            setError(deleteError instanceof Error ? deleteError.message : "Failed to delete template")
+        }
+    }
+
+    const editingTemplate = templates.find((t) => t.id === editingId)
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Prompt settings">
+                    <Settings className="w-4 h-4" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Prompt Templates</DialogTitle>
+                    <DialogDescription>
+                        Choose and edit the template used to answer questions from your documents.
+                        Available variables: {variables.map((v) => `{${v}}`).join(", ")}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-1">
+                        <Label>Template</Label>
+                        <Select value={editingId || NEW_TEMPLATE_ID} onValueChange={(id) => loadDraft(id === NEW_TEMPLATE_ID ? "" : id, templates)}>
+                            <SelectTrigger className="w-full">
+                                <SelectValue placeholder="Select a template" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {templates.map((t) => (
+                                    <SelectItem key={t.id} value={t.id}>
+                                        {t.name}
+                                        {t.id === promptTemplateId ? " (in use)" : ""}
+                                    </SelectItem>
+                                ))}
+                                <SelectItem value={NEW_TEMPLATE_ID}>+ New template</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                            <Label>Name</Label>
+                            <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Language</Label>
+                            <Input value={draft.language} onChange={(e) => setDraft({ ...draft, language: e.target.value })} />
+                        </div>
+                    </div>
+
+                    <div className="space-y-1">
+                        <Label>Template text</Label>
+                        <Textarea
+                            value={draft.template}
+                            onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                            className="min-h-48 font-mono text-xs"
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <DialogFooter className="gap-2">
+                    {editingTemplate && (
+                        <Button variant="outline" onClick={handleDelete}>
+                            {editingTemplate.builtIn ? "Reset to default" : "Delete"}
+                        </Button>
+                    )}
+                    {editingTemplate && editingId !== promptTemplateId && (
+                        <Button
+                            variant="secondary"
+                            onClick={() => {
+                                onPromptTemplateChange(editingId)
+                                setOpen(false)
+                            }}
+                        >
+                            Use this template
+                        </Button>
+                    )}
+                    <Button onClick={handleSave} disabled={isSaving || !draft.name.trim() || !draft.template.trim()}>
+                        {isSaving ? "Saving..." : "Save and use"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
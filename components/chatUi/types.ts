@@ -1,3 +1,5 @@
+import type { SearchResult } from "@/lib/types"
+
 export interface Message {
   id: string
   content: string
@@ -5,7 +7,15 @@ export interface Message {
   timestamp: Date
   isRAG?: boolean
   context?: string
-  searchResults?: Array<{ fileName: string; content: string; score: number }>
+  searchResults?: Array<{ fileName: string; content: string; score: number; scores?: SearchResult["scores"] }>
+  searchQuery?: string // Standalone query used for retrieval when it differs from the message
+  isStreaming?: boolean
+  isError?: boolean
+}
+
+export interface ModelSelection {
+  provider: string
+  model: string
 }
 
 export interface ChatInterfaceProps {
@@ -1,15 +1,19 @@
 "use client"
 
 import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import type { IndexingJob } from "@/lib/indexing-jobs"
 import type { FileInfo } from "./types"
 
 interface IndexButtonProps {
     files: FileInfo[]
     onIndexFiles: () => void
+    onCancelIndexing?: () => void
     isIndexing: boolean
+    indexingJob?: IndexingJob | null
 }
 
-export function IndexButton({ files, onIndexFiles, isIndexing }: IndexButtonProps) {
+export function IndexButton({ files, onIndexFiles, onCancelIndexing, isIndexing, indexingJob }: IndexButtonProps) {
     if (files.length === 0) return null
 
     const hasErrors = files.some(file => file.error)
@@ -26,7 +30,7 @@ export function IndexButton({ files, onIndexFiles, isIndexing }: IndexButtonProp
                 {isIndexing ? (
                     <>
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
-                        Indexing...
+                        {indexingJob?.status === "queued" ? "Waiting for other jobs..." : "Indexing..."}
                     </>
                 ) : hasErrors
                     ? "Fix errors before indexing"
@@ -36,6 +40,27 @@ export function IndexButton({ files, onIndexFiles, isIndexing }: IndexButtonProp
                 }
             </Button>
 
+            {/* Overall progress of the running job */}
+            {isIndexing && indexingJob && (
+                <div className="mt-3 space-y-1">
+                    <Progress value={indexingJob.totalChunks > 0 ? Math.round((indexingJob.embeddedChunks / indexingJob.totalChunks) * 100) : 0} />
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                            {indexingJob.embeddedChunks} / {indexingJob.totalChunks} chunks
+                            {indexingJob.textsPerSecond > 0 && ` · ${indexingJob.textsPerSecond.toFixed(1)}/s`}
+                        </span>
+                        {onCancelIndexing && (
+                            <button
+                                onClick={onCancelIndexing}
+                                className="text-xs text-red-600 hover:text-red-800 underline"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {/* Show indexing status */}
             <div className="mt-3 text-xs text-muted-foreground">
                 <div className="flex items-center justify-between">
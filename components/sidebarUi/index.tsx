@@ -7,7 +7,7 @@ import { FileList } from "./file-list"
 import { IndexButton } from "./index-button"
 import type { SidebarProps } from "./types"
 
-export function Sidebar({ files, onFileAdd, onFileRemove, onIndexFiles, isIndexing = false }: SidebarProps) {
+export function Sidebar({ files, onFileAdd, onFileRemove, onIndexFiles, onCancelIndexing, isIndexing = false, indexingJob }: SidebarProps) {
     return (
         <div className="w-80 border-r bg-card flex flex-col">
             {/* Header */}
@@ -28,10 +28,16 @@ export function Sidebar({ files, onFileAdd, onFileRemove, onIndexFiles, isIndexi
             <SidebarStats files={files} />
 
             {/* Files List */}
-            <FileList files={files} onFileRemove={onFileRemove} />
+            <FileList files={files} onFileRemove={onFileRemove} indexingJob={indexingJob} />
 
             {/* Index Button */}
-            <IndexButton files={files} onIndexFiles={onIndexFiles} isIndexing={isIndexing} />
+            <IndexButton
+                files={files}
+                onIndexFiles={onIndexFiles}
+                onCancelIndexing={onCancelIndexing}
+                isIndexing={isIndexing}
+                indexingJob={indexingJob}
+            />
         </div>
     )
 }
@@ -1,3 +1,5 @@
+import type { IndexingJob } from '@/lib/indexing-jobs'
+
 export interface FileInfo {
   id: string
   name: string
@@ -7,7 +9,8 @@ export interface FileInfo {
   indexed: boolean
   fileType: 'txt' | 'pdf'
   pageCount?: number
-  error?: string
+  error?: string // Upload or parse failure; the file is not indexed
+  indexError?: string // Why the last indexing run skipped the file; it is retried on the next run
 }
 
 export interface SidebarProps {
@@ -15,5 +18,7 @@ export interface SidebarProps {
   onFileAdd: (files: FileInfo[]) => void
   onFileRemove: (fileId: string) => void
   onIndexFiles: () => void
+  onCancelIndexing?: () => void
   isIndexing?: boolean
+  indexingJob?: IndexingJob | null
 }
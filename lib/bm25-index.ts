@@ -0,0 +1,157 @@
+import type { Chunk } from "./types";
+import { tokenize } from "./tokenizer";
+
+// Inverted index over chunk text with Okapi BM25 ranking. Each term maps to the chunks containing it and how often.
+// Document frequencies and the average chunk length are taken at query time, so adding or removing a chunk only
+// touches that chunk's postings, and a search only walks the postings of the query terms instead of scanning text.
+
+export interface BM25Options {
+  k1?: number; // Term frequency saturation: higher lets repeated terms keep adding to the score
+  b?: number; // Length normalization: 0 ignores chunk length, 1 fully scales by it
+}
+
+export interface KeywordSearchHit {
+  id: string;
+  score: number; // BM25 score; only comparable within one query
+}
+
+// What the index holds for one chunk: its token count and how often each of its terms occurs. Stored per chunk,
+// so the index can be restored without tokenizing the chunks again.
+export interface KeywordDocument {
+  length: number;
+  terms: Array<[string, number]>;
+}
+
+export interface BM25Index {
+  size: () => number;
+  has: (id: string) => boolean;
+  // Adds or replaces the text of a chunk and returns what was indexed for it
+  add: (id: string, text: string) => KeywordDocument;
+  // Adds or replaces a chunk that was indexed before
+  addDocument: (id: string, document: KeywordDocument) => void;
+  remove: (id: string) => boolean;
+  ids: () => string[];
+  search: (query: string, k: number) => KeywordSearchHit[];
+}
+
+interface Postings {
+  slots: number[];
+  frequencies: number[];
+}
+
+const DEFAULT_OPTIONS: Required<BM25Options> = { k1: 1.2, b: 0.75 };
+
+const countTerms = (tokens: string[]): Array<[string, number]> => {
+  const counts = new Map<string, number>();
+  tokens.forEach((token) => counts.set(token, (counts.get(token) || 0) + 1));
+  return [...counts.entries()];
+};
+
+export const createBM25Index = (options: BM25Options = {}): BM25Index => {
+  const { k1, b } = { ...DEFAULT_OPTIONS, ...options };
+  const ids: Array<string | undefined> = []; // Chunk ID per slot; undefined for removed chunks
+  const lengths: number[] = []; // Token count per slot
+  const terms = new Map<string, Postings>();
+  const slotOf = new Map<string, number>();
+  let totalLength = 0;
+  let removedSlots = 0;
+
+  const remove = (id: string): boolean => {
+    const slot = slotOf.get(id);
+    if (slot === undefined) return false;
+    // Postings of the slot are skipped by searches and dropped once removed slots outnumber the others
+    ids[slot] = undefined;
+    slotOf.delete(id);
+    totalLength -= lengths[slot];
+    removedSlots++;
+    return true;
+  };
+
+  const addDocument = (id: string, document: KeywordDocument): void => {
+    remove(id);
+    const slot = ids.length;
+    ids.push(id);
+    lengths.push(document.length);
+    slotOf.set(id, slot);
+    totalLength += document.length;
+
+    document.terms.forEach(([term, frequency]) => {
+      let postings = terms.get(term);
+      if (!postings) {
+        postings = { slots: [], frequencies: [] };
+        terms.set(term, postings);
+      }
+      postings.slots.push(slot);
+      postings.frequencies.push(frequency);
+    });
+  };
+
+  const add = (id: string, text: string): KeywordDocument => {
+    const tokens = tokenize(text);
+    const document = { length: tokens.length, terms: countTerms(tokens) };
+    addDocument(id, document);
+    return document;
+  };
+
+  const compact = (): void => {
+    terms.forEach((postings, term) => {
+      const keep = postings.slots.map((slot, i) => (ids[slot] !== undefined ? i : -1)).filter((i) => i >= 0);
+      if (keep.length === 0) {
+        terms.delete(term);
+      } else if (keep.length < postings.slots.length) {
+        postings.slots = keep.map((i) => postings.slots[i]);
+        postings.frequencies = keep.map((i) => postings.frequencies[i]);
+      }
+    });
+    removedSlots = 0;
+  };
+
+  const search = (query: string, k: number): KeywordSearchHit[] => {
+    const count = slotOf.size;
+    if (k <= 0 || count === 0) return [];
+    if (removedSlots > count) compact();
+
+    const averageLength = totalLength / count;
+    const scores = new Map<number, number>();
+    new Set(tokenize(query)).forEach((term) => {
+      const postings = terms.get(term);
+      if (!postings) return;
+
+      let documentFrequency = 0;
+      postings.slots.forEach((slot) => {
+        if (ids[slot] !== undefined) documentFrequency++;
+      });
+      if (documentFrequency === 0) return;
+
+      const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      postings.slots.forEach((slot, i) => {
+        if (ids[slot] === undefined) return;
+        const frequency = postings.frequencies[i];
+        const lengthNorm = averageLength > 0 ? 1 - b + (b * lengths[slot]) / averageLength : 1;
+        scores.set(slot, (scores.get(slot) || 0) + (idf * frequency * (k1 + 1)) / (frequency + k1 * lengthNorm));
+      });
+    });
+
+    return [...scores.entries()]
+      .sort((a, c) => c[1] - a[1])
+      .slice(0, k)
+      .map(([slot, score]) => ({ id: ids[slot]!, score }));
+  };
+
+  return {
+    size: () => slotOf.size,
+    has: (id) => slotOf.has(id),
+    add,
+    addDocument,
+    remove,
+    ids: () => [...slotOf.keys()],
+    search,
+  };
+};
+
+// Builds an index over the given chunks
+export const buildBM25Index = (chunks: Chunk[], options: BM25Options = {}): BM25Index => {
+  const index = createBM25Index(options);
+  chunks.forEach((chunk) => index.add(chunk.id, chunk.content));
+  return index;
+};
@@ -1,95 +1,189 @@
 import type { Message } from "../components/chatUi/types";
-import type { RAGService } from "./rag-service";
+import type { ChatTurn, GenerationOptions, LLMProviderName } from "./llm-provider";
+import type { ClientRAGService } from "./client-rag-service";
+import { createConversationMemory, type ConversationMemoryOptions } from "./conversation-memory";
+import { createQueryRewriter } from "./query-rewriter";
+import { readSSEEvents } from "./stream-utils";
+import { estimateTokens } from "./token-budget";
+
+export interface ChatServiceOptions extends ConversationMemoryOptions {
+  condenseFollowUps?: boolean; // Rewrite follow-up questions into standalone search queries
+}
+
+// Per-request settings chosen in the chat UI
+export interface ChatRequestOptions {
+  promptTemplateId?: string;
+  provider?: LLMProviderName;
+  generationOptions?: GenerationOptions;
+}
 
 export interface ChatService {
-  sendMessage: (message: string, ragService: RAGService, onSuccess: (message: Message) => void, onError: (error: string) => void) => Promise<void>;
+  sendMessage: (
+    message: string,
+    history: Message[],
+    ragService: ClientRAGService,
+    onSuccess: (message: Message) => void,
+    onError: (error: string) => void,
+    onUpdate?: (message: Message) => void,
+    requestOptions?: ChatRequestOptions
+  ) => Promise<void>;
+  resetMemory: () => void;
 }
 
-export const createChatService = (): ChatService => ({
-  async sendMessage(message, ragService, onSuccess, onError) {
-    try {
-      // Check if RAG is available and get context
-      let context = "";
-      let isRAG = false;
-      let searchResults: Array<{ fileName: string; content: string; score: number }> = [];
+// Non-streaming call used for conversation summaries and query rewriting
+const generateText = async (prompt: string, requestOptions: ChatRequestOptions = {}): Promise<string> => {
+  const response = await fetch("/api/gemini", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      prompt,
+      provider: requestOptions.provider,
+      generationOptions: requestOptions.generationOptions?.model ? { model: requestOptions.generationOptions.model } : undefined,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return data.response;
+};
+
+export const createChatService = (options: ChatServiceOptions = {}): ChatService => {
+  const { condenseFollowUps = true } = options;
+  const memory = createConversationMemory(options);
+  const queryRewriter = createQueryRewriter();
+
+  return {
+    async sendMessage(message, history, ragService, onSuccess, onError, onUpdate, requestOptions = {}) {
+      // Helper calls use the same provider and model as the answer
+      const generate = (prompt: string) => generateText(prompt, requestOptions);
 
       try {
-        console.log("🔍 Checking RAG availability...");
-        const isAvailable = await ragService.isRAGAvailable();
-        console.log("RAG availability result:", isAvailable);
-
-        if (isAvailable) {
-          console.log("RAG is available, searching for context...");
-
-          // Get search results for debugging
-          console.log("🔍 Calling ragService.search()...");
-          const searchResultsRaw = await ragService.search(message, 3);
-          console.log("Raw search results:", searchResultsRaw);
-
-          searchResults = searchResultsRaw.map((result) => ({
-            fileName: result.chunk.fileName,
-            content: result.content,
-            score: result.score,
-          }));
-
-          console.log("🔍 Calling ragService.getContext()...");
-          context = await ragService.getContext(message);
-          isRAG = context.length > 0;
-
-          console.log("RAG search results:", searchResults);
-          console.log("RAG context length:", context.length);
-          console.log("RAG context preview:", context.substring(0, 200) + "...");
-          console.log("isRAG flag:", isRAG);
+        // Previous turns (possibly summarized); their size limits how much context fits
+        const historyTurns = await memory.buildTurns(history, generate);
+        const historyTokens = historyTurns.reduce((total, turn) => total + estimateTokens(turn.content), 0) + estimateTokens(message);
+
+        // Check if RAG is available and get context
+        let context = "";
+        let isRAG = false;
+        let searchResults: NonNullable<Message["searchResults"]> = [];
+        let searchQuery = message;
+
+        try {
+          console.log("🔍 Checking RAG availability...");
+          const isAvailable = await ragService.isRAGAvailable();
+          console.log("RAG availability result:", isAvailable);
+
+          if (isAvailable) {
+            console.log("RAG is available, searching for context...");
+
+            // Resolve references to earlier turns so retrieval sees a standalone query
+            if (condenseFollowUps) {
+              searchQuery = await queryRewriter.condense(message, history, generate);
+            }
+
+            // Sources (with the scores that ranked them) and the context come from the same search
+            console.log(`🔍 Calling ragService.retrieve() with query "${searchQuery}"...`);
+            const retrieval = await ragService.retrieve(searchQuery, 3, {
+              provider: requestOptions.provider,
+              model: requestOptions.generationOptions?.model,
+              historyTokens,
+              answerTokens: requestOptions.generationOptions?.maxOutputTokens,
+            });
+            console.log("Raw search results:", retrieval.results);
+
+            searchResults = retrieval.results.map((result) => ({
+              fileName: result.chunk.fileName,
+              content: result.content,
+              score: result.score,
+              scores: result.scores,
+            }));
+            context = retrieval.context;
+            isRAG = context.length > 0;
+
+            console.log("RAG search results:", searchResults);
+            console.log("RAG context length:", context.length);
+            console.log("RAG context preview:", context.substring(0, 200) + "...");
+            console.log("isRAG flag:", isRAG);
+          } else {
+            console.log("RAG is not available");
+            console.log("RAG service stats:", ragService.getStats());
+            console.log("RAG debug info:", ragService.debugIndex());
+          }
+        } catch (ragError) {
+          console.error("RAG service error:", ragError);
+          // Continue without RAG if there's an error
+        }
+
+        // The server wraps the question with the selected prompt template when context is available
+        const useRAG = isRAG && context.length > 0;
+        if (useRAG) {
+          console.log("✅ Using RAG context for API message");
         } else {
-          console.log("RAG is not available");
-          console.log("RAG service stats:", ragService.getStats());
-          console.log("RAG debug info:", ragService.debugIndex());
+          console.log("❌ Not using RAG context - isRAG:", isRAG, "context length:", context.length);
         }
-      } catch (ragError) {
-        console.error("RAG service error:", ragError);
-        // Continue without RAG if there's an error
-      }
 
-      // Prepare the message for the API
-      let apiMessage = message;
-      if (isRAG && context) {
-        apiMessage = `Context from uploaded documents:\n\n${context}\n\nUser question: ${message}\n\nPlease answer the user's question based on the provided context. If the context doesn't contain relevant information, you can provide a general answer. Always try to use the context first, and if the context is relevant, mention that you found this information in the uploaded documents.`;
-        console.log("✅ Using RAG context for API message");
-      } else {
-        console.log("❌ Not using RAG context - isRAG:", isRAG, "context length:", context.length);
-      }
+        // History followed by the new user turn
+        const turns: ChatTurn[] = [...historyTurns, { role: "user", content: message }];
+
+        console.log(`📤 Sending message to LLM API with ${historyTurns.length} history turns...`);
+        const response = await fetch("/api/gemini", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            messages: turns,
+            stream: true,
+            provider: requestOptions.provider,
+            generationOptions: requestOptions.generationOptions,
+            ...(useRAG ? { context, promptTemplate: requestOptions.promptTemplateId } : {}),
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        if (!response.body) {
+          throw new Error("Empty response stream from LLM API");
+        }
+
+        const assistantMessage: Message = {
+          id: (Date.now() + 1).toString(),
+          content: "",
+          role: "assistant",
+          timestamp: new Date(),
+          isRAG,
+          context: isRAG ? context : undefined,
+          searchResults: isRAG ? searchResults : undefined,
+          searchQuery: searchQuery !== message ? searchQuery : undefined,
+          isStreaming: true,
+        };
+
+        // Render partial content as tokens arrive
+        for await (const event of readSSEEvents(response.body)) {
+          if (event.text) {
+            assistantMessage.content += event.text;
+            onUpdate?.({ ...assistantMessage });
+          }
+        }
+        console.log("✅ Received streamed response from LLM API");
 
-      console.log("📤 Sending message to Gemini API...");
-      const response = await fetch("/api/gemini", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ prompt: apiMessage }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+        assistantMessage.isStreaming = false;
+        onSuccess({ ...assistantMessage });
+      } catch (error) {
+        console.error("Error sending message:", error);
+        onError(error instanceof Error ? error.message : "Unknown error occurred");
       }
+    },
 
-      const data = await response.json();
-      console.log("✅ Received response from Gemini API");
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: data.response,
-        role: "assistant",
-        timestamp: new Date(),
-        isRAG,
-        context: isRAG ? context : undefined,
-        searchResults: isRAG ? searchResults : undefined,
-      };
-
-      onSuccess(assistantMessage);
-    } catch (error) {
-      console.error("Error sending message:", error);
-      onError(error instanceof Error ? error.message : "Unknown error occurred");
-    }
-  },
-});
+    resetMemory() {
+      memory.reset();
+    },
+  };
+};
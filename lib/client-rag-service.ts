@@ -1,12 +1,27 @@
-import type { FileInfo, Chunk, SearchResult, RAGStats, RAGDebugInfo } from "./types";
+import type { FileInfo, Chunk, SearchResult, RAGStats, RAGDebugInfo, RetrievalMode, RAGSearchResultResponse } from "./types";
+import type { LLMProviderName } from "./llm-provider";
+import type { IndexingJob } from "./indexing-jobs";
+import { readSSEEvents } from "./stream-utils";
+
+// Describes the answering request so the server can size the context to the model's window
+export interface ContextBudgetRequest {
+  provider?: LLMProviderName;
+  model?: string;
+  historyTokens?: number;
+  answerTokens?: number;
+}
 
 export interface ClientRAGService {
   addFiles: (files: FileInfo[]) => Promise<void>;
   removeFile: (fileId: string) => Promise<void>;
   getFiles: () => FileInfo[];
-  indexFiles: () => Promise<void>;
-  search: (query: string, topK?: number) => Promise<SearchResult[]>;
-  getContext: (query: string, maxLength?: number) => Promise<string>;
+  indexFiles: (onProgress?: (job: IndexingJob) => void) => Promise<IndexingJob>;
+  cancelIndexing: () => Promise<void>;
+  // Without a mode the server uses its default (RAG_RETRIEVAL_MODE)
+  search: (query: string, topK?: number, mode?: RetrievalMode) => Promise<SearchResult[]>;
+  getContext: (query: string, budget?: ContextBudgetRequest, mode?: RetrievalMode) => Promise<string>;
+  // Search results and the context built from them in one request, so the server retrieves (and reranks) once
+  retrieve: (query: string, topK?: number, budget?: ContextBudgetRequest, mode?: RetrievalMode) => Promise<{ results: SearchResult[]; context: string }>;
   isRAGAvailable: () => boolean;
   getStats: () => RAGStats;
   debugIndex: () => RAGDebugInfo;
@@ -19,6 +34,9 @@ export const createClientRAGService = (): ClientRAGService => {
   let chunks: Chunk[] = [];
   let embeddings: number[][] = [];
   let isIndexed = false;
+  let activeJobId: string | null = null;
+
+  const JOB_RECONNECT_DELAY_MS = 1000;
 
   const addFiles = async (newFiles: FileInfo[]): Promise<void> => {
     try {
@@ -76,7 +94,8 @@ export const createClientRAGService = (): ClientRAGService => {
     return files;
   };
 
-  const indexFiles = async (): Promise<void> => {
+  // Starts a background indexing job and follows its event stream until it finishes
+  const indexFiles = async (onProgress?: (job: IndexingJob) => void): Promise<IndexingJob> => {
     try {
       console.log("🚀 Starting RAG indexing via API...");
 
@@ -85,7 +104,8 @@ export const createClientRAGService = (): ClientRAGService => {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ files }),
+        // Contents were uploaded by addFiles; the server only re-processes new or changed files
+        body: JSON.stringify({ fileIds: files.map((f) => f.id) }),
       });
 
       if (!response.ok) {
@@ -93,20 +113,89 @@ export const createClientRAGService = (): ClientRAGService => {
         throw new Error(errorData.error || `HTTP ${response.status}`);
       }
 
-      const data = await response.json();
-      console.log("✅ RAG indexing completed:", data);
+      let { job }: { job: IndexingJob } = await response.json();
+      activeJobId = job.id;
+      console.log(`📋 Indexing job ${job.id} queued`);
+      onProgress?.(job);
+
+      // The stream starts with the current job, so a dropped connection is simply reopened
+      while (job.status === "queued" || job.status === "running") {
+        const eventsResponse = await fetch(`/api/rag/jobs/${job.id}/events`);
+        if (!eventsResponse.ok || !eventsResponse.body) {
+          const errorData = await eventsResponse.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP ${eventsResponse.status}`);
+        }
+
+        for await (const event of readSSEEvents(eventsResponse.body)) {
+          if (!event.job) continue;
+          job = event.job as IndexingJob;
+          onProgress?.(job);
+        }
+
+        if (job.status === "queued" || job.status === "running") {
+          console.warn(`⚠️ Indexing job ${job.id} event stream closed early, reconnecting...`);
+          await new Promise((resolve) => setTimeout(resolve, JOB_RECONNECT_DELAY_MS));
+        }
+      }
+
+      if (job.status === "failed") {
+        throw new Error(job.error || "Indexing failed");
+      }
+      console.log(`✅ RAG indexing job ${job.status}:`, job);
 
-      isIndexed = true;
+      if (job.status === "completed") {
+        isIndexed = true;
 
-      // Update file status
-      files = files.map((file) => ({ ...file, indexed: true }));
+        // Update file status
+        files = files.map((file) => {
+          const progress = job.files.find((f) => f.fileId === file.id);
+          return { ...file, indexed: progress?.phase === "done" || progress?.phase === "unchanged", indexError: file.error ? undefined : progress?.error };
+        });
+      }
+      return job;
     } catch (error) {
       console.error("RAG indexing failed:", error);
       throw error;
+    } finally {
+      activeJobId = null;
     }
   };
 
-  const search = async (query: string, topK: number = 5): Promise<SearchResult[]> => {
+  const cancelIndexing = async (): Promise<void> => {
+    if (!activeJobId) return;
+
+    const response = await fetch(`/api/rag/jobs/${activeJobId}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ action: "cancel" }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+    console.log(`🛑 Cancelled indexing job ${activeJobId}`);
+  };
+
+  // Converts the API response to SearchResult format; the API does not return chunk IDs or positions
+  const toSearchResults = (searchResults: RAGSearchResultResponse[]): SearchResult[] =>
+    searchResults.map((result, index) => ({
+      chunk: {
+        id: `chunk-${index}`,
+        fileId: `file-${index}`,
+        fileName: result.fileName,
+        content: result.content,
+        startIndex: 0,
+        endIndex: result.content.length,
+      },
+      content: result.content,
+      score: result.score,
+      scores: result.scores,
+    }));
+
+  const search = async (query: string, topK: number = 5, mode?: RetrievalMode): Promise<SearchResult[]> => {
     console.log(`🔍 Client RAG search called with query: "${query}", topK: ${topK}`);
     console.log(`🔍 Search state: isIndexed=${isIndexed}, files.length=${files.length}`);
 
@@ -122,7 +211,7 @@ export const createClientRAGService = (): ClientRAGService => {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ query, topK }),
+        body: JSON.stringify({ query, topK, mode }),
       });
 
       if (!response.ok) {
@@ -134,18 +223,7 @@ export const createClientRAGService = (): ClientRAGService => {
       const data = await response.json();
       console.log("✅ RAG search API response:", data);
 
-      // Convert the API response to SearchResult format
-      const results = data.searchResults.map((result: any, index: number) => ({
-        chunk: {
-          id: `chunk-${index}`,
-          fileId: `file-${index}`,
-          fileName: result.fileName,
-          content: result.content,
-          chunkIndex: index,
-        },
-        content: result.content,
-        score: result.score,
-      }));
+      const results = toSearchResults(data.searchResults);
 
       console.log(`🔍 Converted ${results.length} search results:`, results);
       return results;
@@ -155,8 +233,8 @@ export const createClientRAGService = (): ClientRAGService => {
     }
   };
 
-  const getContext = async (query: string, maxLength: number = 3000): Promise<string> => {
-    console.log(`🔍 Client RAG getContext called with query: "${query}", maxLength: ${maxLength}`);
+  const getContext = async (query: string, budget: ContextBudgetRequest = {}, mode?: RetrievalMode): Promise<string> => {
+    console.log(`🔍 Client RAG getContext called with query: "${query}", budget:`, budget);
     console.log(`🔍 Context state: isIndexed=${isIndexed}, files.length=${files.length}`);
 
     if (!isIndexed || files.length === 0) {
@@ -171,7 +249,7 @@ export const createClientRAGService = (): ClientRAGService => {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ query, topK: 3 }),
+        body: JSON.stringify({ query, topK: 3, ...budget, mode }),
       });
 
       if (!response.ok) {
@@ -192,6 +270,44 @@ export const createClientRAGService = (): ClientRAGService => {
     }
   };
 
+  const retrieve = async (
+    query: string,
+    topK: number = 3,
+    budget: ContextBudgetRequest = {},
+    mode?: RetrievalMode
+  ): Promise<{ results: SearchResult[]; context: string }> => {
+    if (!isIndexed || files.length === 0) {
+      console.log("❌ No indexed content available for retrieval");
+      return { results: [], context: "" };
+    }
+
+    try {
+      console.log(`📡 Making retrieval request to /api/rag for "${query}"...`);
+      const response = await fetch("/api/rag", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query, topK, ...budget, mode }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        console.error("❌ RAG retrieval API error:", errorData);
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const results = toSearchResults(data.searchResults || []);
+      const context = data.context || "";
+      console.log(`🔍 Retrieved ${results.length} results${data.reranker ? ` reranked by ${data.reranker}` : ""} and ${context.length} characters of context`);
+      return { results, context };
+    } catch (error) {
+      console.error("❌ RAG retrieval failed:", error);
+      return { results: [], context: "" };
+    }
+  };
+
   const isRAGAvailable = (): boolean => {
     const available = isIndexed && files.length > 0;
     console.log(`🔍 Client RAG availability check:`, {
@@ -224,7 +340,7 @@ export const createClientRAGService = (): ClientRAGService => {
         id: f.id,
         name: f.name,
         indexed: f.indexed,
-        error: f.error,
+        error: f.error || f.indexError,
         contentLength: f.content.length,
       })),
     };
@@ -263,7 +379,7 @@ export const createClientRAGService = (): ClientRAGService => {
       throw new Error("RAG not available - no indexed content");
     }
 
-    const context = await getContext(query, 3000);
+    const context = await getContext(query);
     if (!context) {
       throw new Error("No relevant context found");
     }
@@ -281,8 +397,10 @@ export const createClientRAGService = (): ClientRAGService => {
     removeFile,
     getFiles,
     indexFiles,
+    cancelIndexing,
     search,
     getContext,
+    retrieve,
     isRAGAvailable,
     getStats,
     debugIndex,
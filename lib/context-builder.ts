@@ -0,0 +1,156 @@
+import type { SearchResult } from "./types";
+import { estimateTokens, truncateToTokens } from "./token-budget";
+import { tokenize } from "./tokenizer";
+
+// Below this many remaining tokens a trimmed chunk carries too little to be useful
+const MIN_TRIMMED_CHUNK_TOKENS = 50;
+
+// Search results packed into a context, best first
+export const CONTEXT_RESULTS = 6;
+
+// Search results a context is picked from; more candidates than CONTEXT_RESULTS leave room to skip near-duplicates
+export const CONTEXT_CANDIDATES = CONTEXT_RESULTS * 3;
+
+// Weight of relevance against novelty in maximal marginal relevance
+const DEFAULT_MMR_LAMBDA = 0.7;
+
+export interface ContextOptions {
+  maxResults?: number; // Results picked from the candidates, default CONTEXT_RESULTS
+  mmrLambda?: number; // 1 picks by relevance only, 0 by difference from the results already picked only
+}
+
+// Consecutive text of one file, made of one or more overlapping or adjacent chunks
+interface Passage {
+  fileId: string;
+  fileName: string;
+  startIndex: number;
+  endIndex: number;
+  content: string;
+}
+
+const formatPassage = (fileName: string, content: string): string => `[From: ${fileName}]\n${content}`;
+
+const passageTokens = (passage: Passage): number => estimateTokens(formatPassage(passage.fileName, passage.content));
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((term) => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// Orders results by maximal marginal relevance and returns the first `limit`: each pick is the result with the best
+// mix of its own relevance and its difference from the results picked before it, so near-duplicates (e.g. the same
+// paragraph in two files) give way to results that add something new. Similarity is the overlap of their terms.
+export const selectByMMR = (results: SearchResult[], limit: number, lambda: number = DEFAULT_MMR_LAMBDA): SearchResult[] => {
+  if (results.length <= 1 || lambda >= 1) return results.slice(0, limit);
+
+  // Scores of different retrievers and rerankers have different ranges, so relevance is scaled to 0..1
+  const scores = results.map((result) => result.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  const relevance = scores.map((score) => (range > 0 ? (score - min) / range : 1));
+  const terms = results.map((result) => new Set(tokenize(result.content)));
+
+  const picked: number[] = [];
+  const maxSimilarity = new Array<number>(results.length).fill(0);
+  const remaining = new Set(results.map((_, i) => i));
+  while (picked.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    remaining.forEach((i) => {
+      const score = lambda * relevance[i] - (1 - lambda) * maxSimilarity[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+
+    picked.push(best);
+    remaining.delete(best);
+    remaining.forEach((i) => {
+      maxSimilarity[i] = Math.max(maxSimilarity[i], jaccard(terms[i], terms[best]));
+    });
+  }
+  return picked.map((i) => results[i]);
+};
+
+// Joins the text of two overlapping or adjacent passages of one file, `first` starting earlier. Chunk contents are
+// trimmed, so the shared text is found by matching the end of `first` against the start of `second`.
+const joinText = (first: Passage, second: Passage): string => {
+  if (second.endIndex <= first.endIndex) return first.content;
+
+  const maxOverlap = Math.min(first.endIndex - second.startIndex, first.content.length, second.content.length);
+  for (let overlap = maxOverlap; overlap > 0; overlap--) {
+    if (first.content.endsWith(second.content.slice(0, overlap))) {
+      return first.content + second.content.slice(overlap);
+    }
+  }
+  return `${first.content}\n${second.content}`;
+};
+
+const touches = (a: Passage, b: Passage): boolean => a.fileId === b.fileId && a.startIndex <= b.endIndex && b.startIndex <= a.endIndex;
+
+// Adds a chunk to the passages: merged with every passage of its file it overlaps or adjoins (in place of the first
+// of them), otherwise appended as a new passage
+const addToPassages = (passages: Passage[], chunk: Passage): Passage[] => {
+  const touching = passages.filter((passage) => touches(passage, chunk));
+  if (touching.length === 0) return [...passages, chunk];
+
+  const merged = [...touching, chunk]
+    .sort((a, b) => a.startIndex - b.startIndex)
+    .reduce((first, second) => ({
+      ...first,
+      startIndex: Math.min(first.startIndex, second.startIndex),
+      endIndex: Math.max(first.endIndex, second.endIndex),
+      content: joinText(first, second),
+    }));
+  return passages.flatMap((passage) => (passage === touching[0] ? [merged] : touching.includes(passage) ? [] : [passage]));
+};
+
+const totalTokens = (passages: Passage[]): number => passages.reduce((sum, passage, i) => sum + passageTokens(passage) + (i > 0 ? 1 : 0), 0);
+
+// Packs ranked search results into a context string that fits in maxTokens. Results are picked by maximal marginal
+// relevance (see selectByMMR), and chunks of one file that overlap or adjoin are merged into one passage, so the
+// overlap between neighbouring chunks is not repeated. The chunk that overflows the budget is trimmed instead of
+// being dropped.
+export const buildContext = (results: SearchResult[], maxTokens: number, options: ContextOptions = {}): string => {
+  const { maxResults = CONTEXT_RESULTS, mmrLambda = DEFAULT_MMR_LAMBDA } = options;
+  const selected = selectByMMR(results, maxResults, mmrLambda);
+  let passages: Passage[] = [];
+  let packedChunks = 0;
+
+  for (const result of selected) {
+    const chunk: Passage = {
+      fileId: result.chunk.fileId,
+      fileName: result.chunk.fileName,
+      startIndex: result.chunk.startIndex,
+      endIndex: result.chunk.endIndex,
+      content: result.content,
+    };
+    const next = addToPassages(passages, chunk);
+
+    if (totalTokens(next) <= maxTokens) {
+      passages = next;
+      packedChunks++;
+      continue;
+    }
+
+    // Only a chunk that starts a new passage is trimmed; trimming a merged passage would cut text already in it
+    const remaining = maxTokens - totalTokens(passages) - (passages.length > 0 ? 1 : 0) - estimateTokens(formatPassage(chunk.fileName, ""));
+    if (next.length > passages.length && remaining >= MIN_TRIMMED_CHUNK_TOKENS) {
+      const trimmed = truncateToTokens(chunk.content, remaining);
+      passages = [...passages, { ...chunk, content: trimmed }];
+      packedChunks++;
+      console.log(`✂️ Trimmed last context chunk from ${estimateTokens(chunk.content)} to ${estimateTokens(trimmed)} tokens`);
+    }
+    break;
+  }
+
+  console.log(
+    `RAG Context packed: ${packedChunks}/${results.length} chunks in ${passages.length} passages, ~${totalTokens(passages)}/${maxTokens} tokens`
+  );
+  return passages.map((passage) => formatPassage(passage.fileName, passage.content)).join("\n\n");
+};
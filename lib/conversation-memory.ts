@@ -0,0 +1,87 @@
+import type { Message } from "../components/chatUi/types";
+import type { ChatTurn } from "./llm-provider";
+
+export interface ConversationMemoryOptions {
+  historyWindow?: number; // Number of most recent messages sent verbatim
+  summarizeOverflow?: boolean; // Summarize messages that fall out of the window instead of dropping them
+}
+
+export interface ConversationMemory {
+  buildTurns: (history: Message[], summarize: (transcript: string) => Promise<string>) => Promise<ChatTurn[]>;
+  getSummary: () => string;
+  reset: () => void;
+}
+
+const DEFAULT_HISTORY_WINDOW = 10;
+
+const formatTranscript = (messages: Message[]): string => {
+  return messages.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n");
+};
+
+export const buildSummaryPrompt = (previousSummary: string, transcript: string): string => {
+  return `Summarize the following conversation between a user and an assistant so it can be used as memory for later turns. Keep names, facts, numbers, decisions and open questions. Answer with the summary only, in the language of the conversation.
+${previousSummary ? `\n# Summary so far\n${previousSummary}\n` : ""}
+# New messages
+${transcript}`;
+};
+
+export const createConversationMemory = (options: ConversationMemoryOptions = {}): ConversationMemory => {
+  const { historyWindow = DEFAULT_HISTORY_WINDOW, summarizeOverflow = true } = options;
+
+  let summary = "";
+  let summarizedCount = 0; // Messages already folded into the summary
+
+  const buildTurns = async (history: Message[], summarize: (transcript: string) => Promise<string>): Promise<ChatTurn[]> => {
+    // Failed requests are shown in the chat but are not part of the conversation
+    const conversation = history.filter((m) => !m.isError && !m.isStreaming && m.content.trim().length > 0);
+
+    // A history that got shorter means the chat was reset
+    if (conversation.length < summarizedCount) {
+      reset();
+    }
+
+    // The window always starts on a user turn so roles keep alternating
+    let overflowCount = Math.max(0, conversation.length - historyWindow);
+    while (overflowCount < conversation.length && conversation[overflowCount].role === "assistant") {
+      overflowCount++;
+    }
+    const recent = conversation.slice(overflowCount);
+
+    if (summarizeOverflow && overflowCount > summarizedCount) {
+      const newlyOverflowed = conversation.slice(summarizedCount, overflowCount);
+      console.log(`🧠 Summarizing ${newlyOverflowed.length} messages that left the history window`);
+
+      try {
+        summary = await summarize(buildSummaryPrompt(summary, formatTranscript(newlyOverflowed)));
+        summarizedCount = overflowCount;
+      } catch (error) {
+        // Keep the previous summary; the overflowed turns are retried next time
+        console.error("Conversation summarization failed:", error);
+      }
+    }
+
+    const turns: ChatTurn[] = recent.map((m) => ({ role: m.role, content: m.content }));
+
+    if (summarizeOverflow && summary) {
+      return [
+        { role: "user", content: `Summary of our earlier conversation:\n${summary}` },
+        { role: "assistant", content: "Understood. I will take this earlier conversation into account." },
+        ...turns,
+      ];
+    }
+    return turns;
+  };
+
+  const getSummary = (): string => summary;
+
+  const reset = (): void => {
+    summary = "";
+    summarizedCount = 0;
+  };
+
+  return {
+    buildTurns,
+    getSummary,
+    reset,
+  };
+};
@@ -0,0 +1,152 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { appendVectorFile, getVectorFormat, MAX_VECTOR_BYTES_IN_MEMORY, MAX_VECTORS_IN_MEMORY, readVectorFile, toVector, writeVectorFile } from "./vector-file";
+import { getStorageLocation, type RAGStorage } from "./rag-storage";
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+const CACHE_FILE_NAME = ".rag-embedding-cache.vectors";
+
+// The cache file sits next to the index file; without one (the memory store) the cache is not saved either
+const getCachePath = (indexLocation: string | undefined): string | undefined =>
+  indexLocation ? path.join(path.dirname(indexLocation), CACHE_FILE_NAME) : undefined;
+
+export const hashContent = (content: string): string => crypto.createHash("sha256").update(content).digest("hex");
+
+// Vectors are only reusable for the exact model and chunk text that produced them
+const toCacheKey = (provider: string, model: string, content: string): string => `${provider}/${model}:${hashContent(content)}`;
+
+export class EmbeddingCacheService {
+  private static instance: EmbeddingCacheService;
+  private dataPath?: string;
+  private legacyPath?: string;
+  private entries: Map<string, Float32Array>;
+  private valueCount = 0; // Values of all cached vectors, for the memory limit
+  private unsavedKeys = new Set<string>(); // Entries added since the last save
+  private savedRecords = 0; // Entries in the cache file, including replaced and evicted ones
+
+  // Without a data path the cache is kept in memory only
+  private constructor(dataPath?: string) {
+    this.dataPath = dataPath;
+    // Earlier versions kept the cache as JSON; it is read once and replaced on the next save
+    this.legacyPath = dataPath?.replace(/\.vectors$/, ".json");
+    this.entries = new Map();
+    this.loadData();
+  }
+
+  // Cache of the index selected by RAG_STORAGE and RAG_STORAGE_PATH; it lives next to the index so it survives
+  // re-indexing
+  public static getInstance(): EmbeddingCacheService {
+    // Kept on globalThis so every route bundle and dev-server reload adds to the same cache
+    const globalCache = globalThis as typeof globalThis & { __embeddingCacheService?: EmbeddingCacheService };
+    if (!EmbeddingCacheService.instance) {
+      EmbeddingCacheService.instance =
+        globalCache.__embeddingCacheService ||
+        new EmbeddingCacheService(getCachePath(getStorageLocation()));
+      globalCache.__embeddingCacheService = EmbeddingCacheService.instance;
+    }
+    return EmbeddingCacheService.instance;
+  }
+
+  // Creates a cache for the given storage: next to its index file, or in memory only for the memory store
+  public static forStorage(storage: RAGStorage): EmbeddingCacheService {
+    return new EmbeddingCacheService(getCachePath(storage.location));
+  }
+
+  private loadData(): void {
+    if (!this.dataPath || !this.legacyPath) return;
+    try {
+      if (fs.existsSync(this.dataPath)) {
+        const records = readVectorFile(this.dataPath);
+        // Later records of a key are newer, so they move it to the end like `set` does
+        records.forEach(([key, vector]) => {
+          this.entries.delete(key);
+          this.entries.set(key, vector);
+        });
+        this.savedRecords = records.length;
+        console.log(`📁 Loaded embedding cache: ${this.entries.size} entries`);
+      } else if (fs.existsSync(this.legacyPath)) {
+        const legacy: Record<string, number[]> = JSON.parse(fs.readFileSync(this.legacyPath, "utf-8"));
+        this.entries = new Map(Object.entries(legacy).map(([key, vector]) => [key, toVector(vector)]));
+        console.log(`📁 Loaded embedding cache from ${path.basename(this.legacyPath)}: ${this.entries.size} entries`);
+      }
+      this.valueCount = 0;
+      this.entries.forEach((vector) => (this.valueCount += vector.length));
+      this.evict();
+    } catch (error) {
+      console.error("❌ Error loading embedding cache:", error);
+      this.entries = new Map();
+      this.valueCount = 0;
+      this.savedRecords = 0;
+    }
+  }
+
+  // Callers add a whole indexing run and then save once. New entries are appended to the cache file; it is
+  // rewritten once replaced and evicted entries make up more than a quarter of it.
+  public saveData(): void {
+    if (!this.dataPath || !this.legacyPath) return;
+    try {
+      const records = this.savedRecords + this.unsavedKeys.size;
+      if (!fs.existsSync(this.dataPath) || records - this.entries.size > this.entries.size / 4) {
+        // No backups: the cache can be rebuilt by embedding again
+        writeVectorFile(this.dataPath, [...this.entries.entries()], getVectorFormat(), 0);
+        fs.rmSync(this.legacyPath, { force: true });
+        this.savedRecords = this.entries.size;
+        console.log(`💾 Saved embedding cache: ${this.entries.size} entries`);
+      } else if (this.unsavedKeys.size > 0) {
+        appendVectorFile(this.dataPath, [...this.unsavedKeys].map((key): [string, Float32Array] => [key, this.entries.get(key)!]), getVectorFormat());
+        this.savedRecords = records;
+        console.log(`💾 Saved ${this.unsavedKeys.size} new embedding cache entries`);
+      }
+      this.unsavedKeys.clear();
+    } catch (error) {
+      console.error("❌ Error saving embedding cache:", error);
+    }
+  }
+
+  public size(): number {
+    return this.entries.size;
+  }
+
+  public get(provider: string, model: string, content: string): Float32Array | undefined {
+    return this.entries.get(toCacheKey(provider, model, content));
+  }
+
+  public set(provider: string, model: string, content: string, embedding: Float32Array): void {
+    const key = toCacheKey(provider, model, content);
+    // Re-inserting moves the key to the end, so eviction drops the least recently stored vectors
+    this.valueCount -= this.entries.get(key)?.length || 0;
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+    this.valueCount += embedding.length;
+    if (this.dataPath) {
+      this.unsavedKeys.delete(key);
+      this.unsavedKeys.add(key);
+    }
+    this.evict();
+  }
+
+  // The cache holds copies of the index vectors next to the index itself, so it gets the same limits as the index:
+  // oldest entries are evicted beyond MAX_VECTORS_IN_MEMORY vectors or MAX_VECTOR_BYTES_IN_MEMORY of values
+  private evict(): void {
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= MAX_VECTORS_IN_MEMORY && this.valueCount * 4 <= MAX_VECTOR_BYTES_IN_MEMORY) break;
+      this.entries.delete(oldestKey);
+      this.unsavedKeys.delete(oldestKey);
+      this.valueCount -= oldest.length;
+    }
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.unsavedKeys.clear();
+    this.valueCount = 0;
+    this.saveData();
+    console.log("🗑️ Embedding cache cleared");
+  }
+}
@@ -0,0 +1,89 @@
+import fs from "fs";
+import path from "path";
+
+// Backups kept next to each persisted file as <file>.bak.1 (newest) ... <file>.bak.N
+export const BACKUP_COUNT = 3;
+
+export const getBackupPaths = (filePath: string, count: number = BACKUP_COUNT): string[] =>
+  Array.from({ length: count }, (_, i) => `${filePath}.bak.${i + 1}`);
+
+// Shifts <file>.bak.1..N-1 up by one so <file>.bak.1 is free; the oldest backup is dropped
+export const shiftBackups = (filePath: string, count: number = BACKUP_COUNT): void => {
+  const backups = getBackupPaths(filePath, count);
+  for (let i = backups.length - 1; i > 0; i--) {
+    if (fs.existsSync(backups[i - 1])) fs.renameSync(backups[i - 1], backups[i]);
+  }
+  if (backups.length > 0) fs.rmSync(backups[0], { force: true });
+};
+
+// Keeps the current version of `filePath` as <file>.bak.1. A hard link is used where possible so large files are not copied.
+export const rotateBackups = (filePath: string, count: number = BACKUP_COUNT): void => {
+  if (count <= 0 || !fs.existsSync(filePath)) return;
+
+  shiftBackups(filePath, count);
+  const newest = getBackupPaths(filePath, count)[0];
+  try {
+    fs.linkSync(filePath, newest);
+  } catch {
+    fs.copyFileSync(filePath, newest);
+  }
+};
+
+// Writes to a temporary file in the same directory and renames it over the target, so readers and
+// crashes only ever see the old or the new content. The previous version is kept as a backup. `content` can
+// also be a function that writes to the open file, for content too large to build in one buffer.
+export const writeFileAtomic = (filePath: string, content: string | Uint8Array | ((fd: number) => void), backups: number = BACKUP_COUNT): void => {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`);
+
+  try {
+    const fd = fs.openSync(tempPath, "w");
+    try {
+      if (typeof content === "function") content(fd);
+      else fs.writeFileSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    rotateBackups(filePath, backups);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+// Moves an unreadable file aside so it is neither overwritten nor loaded again
+export const quarantineFile = (filePath: string): string => {
+  const corruptPath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  fs.renameSync(filePath, corruptPath);
+  return corruptPath;
+};
+
+// Reads `filePath` with `read`. If it cannot be read, it is quarantined and the newest readable backup is
+// restored instead; returns undefined for a missing file or when no backup is readable.
+export const readWithRecovery = <T>(filePath: string, read: (file: string) => T, backups: number = BACKUP_COUNT): T | undefined => {
+  if (!fs.existsSync(filePath)) return undefined;
+
+  try {
+    return read(filePath);
+  } catch (error) {
+    const corruptPath = quarantineFile(filePath);
+    console.error(`❌ Could not read ${path.basename(filePath)}, moved it to ${path.basename(corruptPath)}:`, error);
+  }
+
+  for (const backupPath of getBackupPaths(filePath, backups)) {
+    if (!fs.existsSync(backupPath)) continue;
+    try {
+      const data = read(backupPath);
+      fs.copyFileSync(backupPath, filePath);
+      console.warn(`♻️ Restored ${path.basename(filePath)} from ${path.basename(backupPath)}`);
+      return data;
+    } catch (error) {
+      console.error(`❌ Backup ${path.basename(backupPath)} is not readable either:`, error);
+    }
+  }
+
+  console.error(`❌ No readable backup of ${path.basename(filePath)} found, starting empty`);
+  return undefined;
+};
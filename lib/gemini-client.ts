@@ -1,16 +1,18 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, type ContentListUnion, type GenerateContentConfig, type HarmBlockThreshold, type HarmCategory } from "@google/genai";
+import type { EmbedOptions, GenerationOptions, LLMInput, LLMProvider } from "./llm-provider";
+import { createRateLimiter, embedInBatches, readEmbeddingLimits, toChatTurns, toProviderAPIError } from "./provider-utils";
 
 // Google Generative AI configuration
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 const GEN_MODEL_DEFAULT = "gemini-1.5-flash";
 const EMBED_MODEL = "gemini-embedding-001";
+const MODELS_ENDPOINT = "https://generativelanguage.googleapis.com/v1beta/models";
 
-export interface GeminiClient {
-  generateContent: (prompt: string, model?: string) => Promise<string>;
-  embedContent: (text: string) => Promise<number[]>;
-  embedMultiple: (texts: string[]) => Promise<number[][]>;
-  clearMemory: () => void;
-}
+// batchEmbedContents accepts up to 100 texts; the free tier allows about 100 requests per minute
+const EMBED_LIMITS = readEmbeddingLimits("GEMINI", { batchSize: 100, concurrency: 2, requestsPerMinute: 100 });
+const embedRateLimiter = createRateLimiter(EMBED_LIMITS.requestsPerMinute);
+
+export type GeminiClient = LLMProvider;
 
 export const createGeminiClient = (): GeminiClient => {
   let client: GoogleGenAI | null = null;
@@ -32,12 +34,34 @@ export const createGeminiClient = (): GeminiClient => {
     }
   };
 
-  const generateContent = async (prompt: string, model: string = GEN_MODEL_DEFAULT): Promise<string> => {
+  // Gemini calls the assistant role "model"
+  const toContents = (input: LLMInput): ContentListUnion => {
+    if (typeof input === "string") return input;
+    return toChatTurns(input).map((turn) => ({
+      role: turn.role === "assistant" ? "model" : "user",
+      parts: [{ text: turn.content }],
+    }));
+  };
+
+  const toConfig = (options: GenerationOptions): GenerateContentConfig => ({
+    temperature: options.temperature,
+    topP: options.topP,
+    topK: options.topK,
+    maxOutputTokens: options.maxOutputTokens,
+    stopSequences: options.stopSequences,
+    safetySettings: options.safetySettings?.map((s) => ({
+      category: s.category as HarmCategory,
+      threshold: s.threshold as HarmBlockThreshold,
+    })),
+  });
+
+  const generateContent = async (input: LLMInput, options: GenerationOptions = {}): Promise<string> => {
     try {
       const genAIInstance = await initGemini();
       const result = await genAIInstance.models.generateContent({
-        model,
-        contents: prompt,
+        model: options.model || GEN_MODEL_DEFAULT,
+        contents: toContents(input),
+        config: toConfig(options),
       });
       return result.text || "";
     } catch (error) {
@@ -46,6 +70,20 @@ export const createGeminiClient = (): GeminiClient => {
     }
   };
 
+  async function* generateContentStream(input: LLMInput, options: GenerationOptions = {}): AsyncGenerator<string> {
+    const genAIInstance = await initGemini();
+    const stream = await genAIInstance.models.generateContentStream({
+      model: options.model || GEN_MODEL_DEFAULT,
+      contents: toContents(input),
+      config: toConfig(options),
+    });
+
+    for await (const chunk of stream) {
+      const text = chunk.text;
+      if (text) yield text;
+    }
+  }
+
   const embedContent = async (text: string): Promise<number[]> => {
     try {
       const genAIInstance = await initGemini();
@@ -60,43 +98,47 @@ export const createGeminiClient = (): GeminiClient => {
     }
   };
 
-  const embedMultiple = async (texts: string[]): Promise<number[][]> => {
-    const embeddings: number[][] = [];
-
-    console.log(`🔍 Generating embeddings for ${texts.length} texts...`);
-
-    // Add timeout protection
-    const startTime = Date.now();
-    const maxTime = 30000; // 30 seconds max for embedding generation
-
-    for (let i = 0; i < texts.length; i++) {
-      try {
-        // Check timeout
-        if (Date.now() - startTime > maxTime) {
-          console.warn(`⚠️ Embedding generation timeout reached after ${maxTime / 1000} seconds`);
-          break;
-        }
-
-        const text = texts[i];
-        console.log(`📝 Embedding text ${i + 1}/${texts.length} (${text.length} chars)`);
-
-        const embedding = await embedContent(text);
-        embeddings.push(embedding);
-
-        // Add small delay to avoid rate limiting
-        if (i < texts.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      } catch (error) {
-        console.error(`Failed to embed text ${i + 1}:`, error);
-        // Fallback to random embedding
-        const fallbackEmbedding = Array.from({ length: 768 }, () => Math.random());
-        embeddings.push(fallbackEmbedding);
-      }
+  // Calls batchEmbedContents directly, since the SDK's embedContent cannot be aborted
+  const embedBatch = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    if (!GEMINI_API_KEY) {
+      throw new Error("GEMINI_API_KEY environment variable not set");
+    }
+
+    const response = await fetch(`${MODELS_ENDPOINT}/${EMBED_MODEL}:batchEmbedContents?key=${GEMINI_API_KEY}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        requests: texts.map((text) => ({ model: `models/${EMBED_MODEL}`, content: { parts: [{ text }] } })),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw toProviderAPIError("Gemini", response);
+    }
+
+    const data = await response.json();
+    return (data.embeddings || []).map((embedding: { values?: number[] }) => embedding.values || []);
+  };
+
+  const embedMultiple = (texts: string[], options?: EmbedOptions): Promise<Array<number[] | null>> =>
+    embedInBatches(embedBatch, texts, EMBED_LIMITS, embedRateLimiter, options);
+
+  const listModels = async (): Promise<string[]> => {
+    if (!GEMINI_API_KEY) {
+      throw new Error("GEMINI_API_KEY environment variable not set");
+    }
+
+    const response = await fetch(`${MODELS_ENDPOINT}?key=${GEMINI_API_KEY}`);
+    if (!response.ok) {
+      throw toProviderAPIError("Gemini", response);
     }
 
-    console.log(`✅ Generated ${embeddings.length} embeddings`);
-    return embeddings;
+    const data = await response.json();
+    return (data.models || [])
+      .filter((m: { supportedGenerationMethods?: string[] }) => m.supportedGenerationMethods?.includes("generateContent"))
+      .map((m: { name: string }) => m.name.replace(/^models\//, ""));
   };
 
   const clearMemory = (): void => {
@@ -105,9 +147,14 @@ export const createGeminiClient = (): GeminiClient => {
   };
 
   return {
+    name: "gemini",
+    defaultModel: GEN_MODEL_DEFAULT,
+    embeddingModel: EMBED_MODEL,
     generateContent,
+    generateContentStream,
     embedContent,
     embedMultiple,
+    listModels,
     clearMemory,
   };
 };
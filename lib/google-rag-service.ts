@@ -1,51 +1,163 @@
-import type { FileInfo, Chunk, SearchResult, RAGStats, RAGDebugInfo } from "./types";
-import { createGeminiClient } from "./gemini-client";
-import { createRAGSearchService } from "./rag-search";
+import type { FileInfo, Chunk, SearchResult, RAGStats, RAGDebugInfo, EmbeddingMap, IndexIntegrityReport, RetrievalMode } from "./types";
+import { createEmbeddingProvider, createLLMProvider, type EmbeddingProgress, type EmbedOptions, type GenerationOptions } from "./llm-provider";
+import { ANN_MIN_VECTORS, createRAGSearchService } from "./rag-search";
 import { createRAGFileManager } from "./rag-file-manager";
 import { RAGPersistenceService } from "./rag-persistence";
+import type { RAGStorage } from "./rag-storage";
+import { JAPANESE_RAG_TEMPLATE_ID, PromptTemplateService } from "./prompt-templates";
+import { computeContextBudget } from "./token-budget";
+import { EmbeddingCacheService, hashContent, type EmbeddingCacheStats } from "./embedding-cache";
+import { checkIndexIntegrity } from "./index-integrity";
+import { IndexMutationLock } from "./index-lock";
+import { getVectorLimit, normalizeVector } from "./vector-file";
+import { createHNSWIndex } from "./hnsw-index";
+import { createHybridSearchService, getDefaultRetrievalMode } from "./hybrid-search";
+import { buildContext, CONTEXT_CANDIDATES } from "./context-builder";
+import { createReranker, rerankResults, RERANK_CANDIDATES } from "./reranker";
 
 // Re-export FileInfo for compatibility
 export type { FileInfo, Chunk, SearchResult, RAGStats, RAGDebugInfo };
 
 export interface GoogleRAGService {
-  addFiles: (files: FileInfo[]) => void;
-  removeFile: (fileId: string) => void;
+  addFiles: (files: FileInfo[]) => Promise<void>;
+  removeFile: (fileId: string) => Promise<void>;
   getFiles: () => FileInfo[];
-  indexFiles: () => Promise<void>;
-  search: (query: string, topK?: number) => Promise<SearchResult[]>;
-  getContext: (query: string, maxLength?: number) => Promise<string>;
+  indexFiles: (options?: IndexFilesOptions) => Promise<IndexingResult>;
+  // `rerank: false` skips the reranker configured by RAG_RERANKER
+  search: (query: string, topK?: number, mode?: RetrievalMode, rerank?: boolean) => Promise<SearchResult[]>;
+  getContext: (query: string, maxTokens?: number, mode?: RetrievalMode) => Promise<string>;
   isRAGAvailable: () => boolean;
   getStats: () => RAGStats;
   debugIndex: () => RAGDebugInfo;
-  clear: () => void;
-  ragAnswer: (query: string) => Promise<{ answer: string; context: string }>;
+  clear: () => Promise<void>;
+  ragAnswer: (query: string, templateId?: string, options?: GenerationOptions) => Promise<{ answer: string; context: string }>;
+  reembedFailedChunks: () => Promise<ReembedResult>;
+  checkIntegrity: () => IndexIntegrityReport;
+  repairIndex: (options?: RepairIndexOptions) => Promise<IndexRepairResult>;
 }
 
-export const createGoogleRAGService = (): GoogleRAGService => {
+export type FileIndexingPhase = "pending" | "chunking" | "embedding" | "saving" | "done" | "unchanged" | "error" | "cancelled";
+
+export interface FileIndexingUpdate {
+  fileId: string;
+  phase: FileIndexingPhase;
+  chunks?: number;
+  embeddedChunks?: number;
+  failedChunks?: number;
+  error?: string;
+}
+
+export interface IndexFilesOptions {
+  fileIds?: string[]; // Files to keep in the index; others are removed. Defaults to every stored file
+  signal?: AbortSignal; // Cancels indexing and keeps the previous index
+  timeoutMs?: number; // Chunks not embedded in time are left for a re-embed; 0 disables the limit
+  onProgress?: (progress: EmbeddingProgress) => void;
+  onFileProgress?: (update: FileIndexingUpdate) => void;
+}
+
+export interface IndexingResult {
+  indexedFiles: number; // New or changed files that were chunked and embedded
+  unchangedFiles: number;
+  removedFiles: number;
+  totalChunks: number;
+  failedChunks: number;
+  cache: EmbeddingCacheStats; // Hits were reused, misses were sent to the embedding provider
+}
+
+export interface ReembedResult {
+  attempted: number;
+  recovered: number;
+  failedChunkIds: string[];
+}
+
+export interface RepairIndexOptions {
+  reembed?: boolean; // Re-embed chunks left without a vector (default true)
+}
+
+export interface IndexRepairResult {
+  before: IndexIntegrityReport;
+  after: IndexIntegrityReport;
+  removedEmbeddings: number; // Orphaned vectors and vectors of the wrong size
+  reembed?: ReembedResult;
+}
+
+// Background builds of the vector index by persistence service; service instances over one index share the build
+// so it is started once
+const vectorIndexBuilds = new WeakMap<RAGPersistenceService, Promise<void>>();
+
+// Uses the shared index from the configured storage unless a storage is given (e.g. a memory store in tests)
+export const createGoogleRAGService = (storage?: RAGStorage): GoogleRAGService => {
   console.log("🆕 Creating Google RAG service instance");
 
   // Get persistence service instance
-  const persistenceService = RAGPersistenceService.getInstance();
+  const persistenceService = storage ? RAGPersistenceService.create(storage) : RAGPersistenceService.getInstance();
+  const embeddingCache = storage ? EmbeddingCacheService.forStorage(storage) : EmbeddingCacheService.getInstance();
 
   // Get data from persistence
   let chunks = persistenceService.getChunks();
   let embeddings = persistenceService.getEmbeddings();
+  let failedChunkIds = persistenceService.getFailedChunkIds();
 
   // Memory management constants
-  const MAX_CHUNKS_IN_MEMORY = 8000; // Limit chunks to prevent memory issues
-  const MAX_EMBEDDINGS_IN_MEMORY = 4000; // Limit embeddings to prevent memory issues
+  // Dimensions assumed for the embedding limit until an index records its own: gemini-embedding-001, the
+  // default model, returns 3072 (about 490MB for 40000 float32 vectors)
+  const DEFAULT_EMBEDDING_DIMENSIONS = 3072;
+  const MAX_INDEXED_CHARS = 32000000; // Chunk text of a full index (40000 chunks of 800 characters)
 
-  const geminiClient = createGeminiClient();
+  const llmProvider = createLLMProvider();
+  const embeddingProvider = createEmbeddingProvider();
   const searchService = createRAGSearchService();
+  const hybridSearchService = createHybridSearchService();
+  const reranker = createReranker();
   const fileManager = createRAGFileManager();
+  const mutationLock = IndexMutationLock.getInstance();
+
+  // Picks up changes committed by other service instances, e.g. a background indexing job
+  const reloadState = (): void => {
+    chunks = persistenceService.getChunks();
+    embeddings = persistenceService.getEmbeddings();
+    failedChunkIds = persistenceService.getFailedChunkIds();
+  };
+
+  // Every change to the index runs under the shared lock and starts from the latest committed state
+  const mutate = <T>(label: string, task: () => T | Promise<T>): Promise<T> =>
+    mutationLock.runExclusive(label, () => {
+      reloadState();
+      return task();
+    });
+
+  // Query embeddings are only comparable with vectors produced by the same model
+  const getEmbeddingModelMismatch = (): string | null => {
+    const indexed = persistenceService.getEmbeddingModel();
+    if (!indexed) return null;
+
+    if (indexed.provider !== embeddingProvider.name || indexed.model !== embeddingProvider.embeddingModel) {
+      return `Index was built with ${indexed.provider}/${indexed.model} but the current embedding model is ${embeddingProvider.name}/${embeddingProvider.embeddingModel}. Re-index the files.`;
+    }
+    return null;
+  };
+
+  const hasEmbedding = (embedding: Float32Array | undefined): boolean => !!embedding && embedding.length > 0;
 
-  const addFiles = (newFiles: FileInfo[]) => {
+  const recordEmbeddingModel = (): void => {
+    const sample = Object.values(embeddings).find(hasEmbedding);
+    persistenceService.setEmbeddingModel(
+      sample
+        ? {
+            provider: embeddingProvider.name,
+            model: embeddingProvider.embeddingModel,
+            dimensions: sample.length,
+          }
+        : undefined
+    );
+  };
+
+  const addFiles = (newFiles: FileInfo[]): Promise<void> => mutate("add files", () => {
     // Check memory limits before adding files
     const currentTotalChars = chunks.reduce((sum, c) => sum + c.content.length, 0);
     const newTotalChars = newFiles.reduce((sum, f) => sum + f.characterCount, 0);
 
-    if (currentTotalChars + newTotalChars > 5000000) {
-      // 5MB limit
+    if (currentTotalChars + newTotalChars > MAX_INDEXED_CHARS) {
       console.warn(`⚠️ Memory limit reached: Cannot add files with ${newTotalChars.toLocaleString()} characters`);
       return;
     }
@@ -59,115 +171,262 @@ export const createGoogleRAGService = (): GoogleRAGService => {
     fileManager.addFiles(newFiles);
     // Also add to persistence service
     persistenceService.addFiles(newFiles);
+  });
+
+  // Builds the vector index over an index that has grown past the exact-search size. Runs under the mutation lock and
+  // yields between batches, so searches keep being answered by exact search meanwhile. Afterwards the index is
+  // updated with every change to the vectors.
+  const buildVectorIndex = async (): Promise<void> => {
+    const dimensions = persistenceService.getEmbeddingModel()?.dimensions;
+    if (persistenceService.hasVectorIndex() || !dimensions || Object.keys(embeddings).length < ANN_MIN_VECTORS) return;
+
+    const startTime = Date.now();
+    const index = createHNSWIndex(dimensions);
+    let added = 0;
+    for (const [chunkId, vector] of Object.entries(embeddings)) {
+      index.add(chunkId, vector);
+      if (++added % 100 === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    persistenceService.setVectorIndex(index);
+    console.log(`🧭 Built vector index over ${index.size()} embeddings in ${Date.now() - startTime}ms`);
+  };
+
+  // Starts building the vector index in the background when a large index has none, e.g. after an upgrade
+  const scheduleVectorIndexBuild = (): void => {
+    if (vectorIndexBuilds.has(persistenceService) || persistenceService.hasVectorIndex() || Object.keys(embeddings).length < ANN_MIN_VECTORS) return;
+    const build = mutate("vector index build", buildVectorIndex)
+      .catch((error) => console.error("❌ Error building vector index:", error))
+      .finally(() => {
+        vectorIndexBuilds.delete(persistenceService);
+      });
+    vectorIndexBuilds.set(persistenceService, build);
+  };
+
+  // Removes matching chunks together with their vectors. The map is copied so the persisted index stays intact until saved
+  const dropChunks = (shouldDrop: (chunk: Chunk) => boolean): void => {
+    embeddings = { ...embeddings };
+    chunks.filter(shouldDrop).forEach((chunk) => delete embeddings[chunk.id]);
+    chunks = chunks.filter((chunk) => !shouldDrop(chunk));
+    const remaining = new Set(chunks.map((c) => c.id));
+    failedChunkIds = failedChunkIds.filter((id) => remaining.has(id));
   };
 
-  const removeFile = (fileId: string) => {
+  const removeFile = (fileId: string): Promise<void> => mutate("remove file", () => {
     fileManager.removeFile(fileId);
     // Remove related chunks and embeddings
-    chunks = chunks.filter((c) => c.fileId !== fileId);
-    embeddings = embeddings.filter((_, index) => {
-      const chunk = chunks[index];
-      return chunk && chunk.fileId !== fileId;
-    });
+    dropChunks((chunk) => chunk.fileId === fileId);
+    const fileIndex = { ...persistenceService.getFileIndex() };
+    delete fileIndex[fileId];
 
     // Update persistence
-    persistenceService.setChunks(chunks);
-    persistenceService.setEmbeddings(embeddings);
+    persistenceService.transaction(() => {
+      persistenceService.setChunks(chunks);
+      persistenceService.setEmbeddings(embeddings);
+      persistenceService.setFailedChunkIds(failedChunkIds);
+      persistenceService.setFileIndex(fileIndex);
+      persistenceService.setFiles(persistenceService.getFiles().filter((f) => f.id !== fileId));
+    });
 
     console.log(`File ${fileId} removed from RAG service`);
-  };
+  });
 
   const getFiles = (): FileInfo[] => {
     // Use persistence service for files
     return persistenceService.getFiles();
   };
 
-  const indexFiles = async (): Promise<void> => {
-    try {
-      console.log(`🚀 Starting Google RAG indexing process...`);
-      const startTime = Date.now();
-      const timeoutMs = 90000; // 90 second timeout
+  // Embeds texts through the content-hash cache so unchanged chunks are never sent twice
+  const embedWithCache = async (
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<{ embeddings: Array<Float32Array | null>; cache: EmbeddingCacheStats }> => {
+    const { name, embeddingModel } = embeddingProvider;
+    const results: Array<Float32Array | null> = texts.map((text) => embeddingCache.get(name, embeddingModel, text) || null);
+    const missIndexes = results.flatMap((embedding, index) => (embedding ? [] : [index]));
+    const hits = texts.length - missIndexes.length;
+    console.log(`🗃️ Embedding cache: ${hits} hits, ${missIndexes.length} misses`);
+
+    // Progress counts cache hits as already completed and reports indexes into `texts`
+    const onProgress = (progress: EmbeddingProgress) =>
+      options.onProgress?.({
+        ...progress,
+        completed: progress.completed + hits,
+        total: texts.length,
+        embeddedIndexes: progress.embeddedIndexes?.map((i) => missIndexes[i]),
+      });
+    options.onProgress?.({
+      completed: hits,
+      failed: 0,
+      total: texts.length,
+      textsPerSecond: 0,
+      embeddedIndexes: results.flatMap((embedding, index) => (embedding ? [index] : [])),
+    });
 
-      // Clear previous data to free memory
-      chunks = [];
-      embeddings = [];
+    if (missIndexes.length > 0) {
+      const embedded = await embeddingProvider.embedMultiple(missIndexes.map((index) => texts[index]), { ...options, onProgress });
+      embedded.forEach((embedding, i) => {
+        const index = missIndexes[i];
+        // Vectors are stored normalized for the vector index; the index and the cache share one Float32Array per vector
+        const vector = embedding ? normalizeVector(embedding) : null;
+        results[index] = vector;
+        if (vector) embeddingCache.set(name, embeddingModel, texts[index], vector);
+      });
+      embeddingCache.saveData();
+    }
 
-      // Force garbage collection if available
-      if (global.gc) {
-        global.gc();
-      }
+    return {
+      embeddings: results,
+      cache: { hits, misses: missIndexes.length, entries: embeddingCache.size() },
+    };
+  };
 
-      console.log(`📁 Calling fileManager.indexFiles()...`);
-      const { chunks: newChunks } = await fileManager.indexFiles();
-      console.log(`✅ File manager indexing completed, got ${newChunks.length} chunks`);
+  // Only new or changed files are chunked and embedded; unchanged files keep their chunks and vectors
+  const runIndexFiles = async (options: IndexFilesOptions): Promise<IndexingResult> => {
+    const { fileIds, signal, timeoutMs = 90000, onProgress, onFileProgress } = options;
 
-      // Debug: Check if chunks are empty
-      if (newChunks.length === 0) {
-        console.warn(`⚠️ WARNING: No chunks created during indexing!`);
-        const files = fileManager.getFiles();
-        console.log(`📁 Files in manager: ${files.length}`);
-        files.forEach((file, index) => {
-          console.log(`  File ${index + 1}: ${file.name} (${file.characterCount} chars, indexed: ${file.indexed}, error: ${file.error || "none"})`);
-        });
-      }
+    // Embedding stops on cancellation or when the time limit is reached
+    const embedController = new AbortController();
+    const stopEmbedding = () => embedController.abort();
+    signal?.addEventListener("abort", stopEmbedding);
+    const embedTimer = timeoutMs > 0 ? setTimeout(stopEmbedding, timeoutMs) : undefined;
 
-      // Check timeout
-      if (Date.now() - startTime > timeoutMs) {
-        throw new Error("Indexing timeout - file processing took too long");
-      }
+    const throwIfCancelled = () => {
+      if (signal?.aborted) throw new Error("Indexing cancelled");
+    };
 
-      // Check memory limits
-      if (newChunks.length > MAX_CHUNKS_IN_MEMORY) {
-        console.warn(`⚠️ Too many chunks (${newChunks.length}), limiting to ${MAX_CHUNKS_IN_MEMORY}`);
-        chunks = newChunks.slice(0, MAX_CHUNKS_IN_MEMORY);
-      } else {
-        chunks = newChunks;
+    try {
+      console.log(`🚀 Starting Google RAG indexing process...`);
+      const startTime = Date.now();
+
+      // Indexing updates the flags of copies, so a cancelled or failed run leaves the stored files as they were
+      const storedFiles = persistenceService.getFiles().map((file) => ({ ...file }));
+      const requested = fileIds ? new Set(fileIds) : null;
+      const files = requested ? storedFiles.filter((f) => requested.has(f.id)) : storedFiles;
+      const fileIndex = { ...persistenceService.getFileIndex() };
+
+      // Vectors from another embedding model cannot be mixed with new ones
+      const rebuild = getEmbeddingModelMismatch() !== null;
+      if (rebuild && chunks.length > 0) {
+        console.log("♻️ Embedding model changed, rebuilding all files");
       }
 
-      // Generate embeddings for chunks in batches
-      if (chunks.length > 0) {
-        console.log(`🔍 Generating embeddings for ${chunks.length} chunks...`);
+      const changedFiles = files.filter((file) => rebuild || fileIndex[file.id]?.contentHash !== hashContent(file.content));
+      const keptFileIds = new Set(files.filter((file) => !changedFiles.includes(file)).map((file) => file.id));
+      const removedFiles = Object.keys(fileIndex).filter((id) => !files.some((f) => f.id === id)).length;
+
+      // Drop chunks of removed and changed files
+      dropChunks((chunk) => !keptFileIds.has(chunk.fileId));
+      Object.keys(fileIndex).forEach((id) => {
+        if (!keptFileIds.has(id)) delete fileIndex[id];
+      });
+
+      console.log(`📁 ${changedFiles.length} new or changed files, ${keptFileIds.size} unchanged, ${removedFiles} removed`);
+      keptFileIds.forEach((fileId) => {
+        const chunkCount = fileIndex[fileId].chunkCount;
+        onFileProgress?.({ fileId, phase: "unchanged", chunks: chunkCount, embeddedChunks: chunkCount });
+      });
+
+      // Chunk only the new and changed files
+      const indexedDimensions = rebuild ? undefined : persistenceService.getEmbeddingModel()?.dimensions;
+      const maxEmbeddings = getVectorLimit(indexedDimensions || DEFAULT_EMBEDDING_DIMENSIONS);
+      const newChunks: Chunk[] = [];
+      for (const file of changedFiles) {
+        throwIfCancelled();
+        if (timeoutMs > 0 && Date.now() - startTime > timeoutMs) {
+          throw new Error("Indexing timeout - file processing took too long");
+        }
 
-        // Process chunks in smaller batches to prevent memory spikes
-        const batchSize = 100;
-        const allEmbeddings: number[][] = [];
+        file.indexed = false;
+        onFileProgress?.({ fileId: file.id, phase: "chunking" });
+        const fileChunks = await fileManager.indexFile(file);
 
-        for (let i = 0; i < chunks.length; i += batchSize) {
-          // Check timeout before each batch
-          if (Date.now() - startTime > timeoutMs) {
-            throw new Error("Indexing timeout - embedding generation took too long");
-          }
+        // Check memory limits
+        if (chunks.length + newChunks.length + fileChunks.length > maxEmbeddings) {
+          console.warn(`⚠️ Memory limit reached: Cannot add ${fileChunks.length} chunks from ${file.name}`);
+          file.indexError = "Memory limit reached during processing";
+        }
+        const error = file.error || file.indexError;
+        if (error) {
+          onFileProgress?.({ fileId: file.id, phase: "error", error });
+          continue;
+        }
 
-          const batch = chunks.slice(i, i + batchSize);
-          const chunkTexts = batch.map((chunk) => chunk.content);
+        onFileProgress?.({ fileId: file.id, phase: "embedding", chunks: fileChunks.length });
+        newChunks.push(...fileChunks);
+        file.indexed = true;
+        fileIndex[file.id] = { contentHash: hashContent(file.content), chunkCount: fileChunks.length, indexedAt: new Date().toISOString() };
+      }
 
-          console.log(`📝 Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
+      // Debug: Check if chunks are empty
+      if (changedFiles.length > 0 && newChunks.length === 0) {
+        console.warn(`⚠️ WARNING: No chunks created during indexing!`);
+        changedFiles.forEach((file, index) => {
+          console.log(`  File ${index + 1}: ${file.name} (${file.characterCount} chars, indexed: ${file.indexed}, error: ${file.error || file.indexError || "none"})`);
+        });
+      }
 
-          try {
-            const batchEmbeddings = await geminiClient.embedMultiple(chunkTexts);
-            allEmbeddings.push(...batchEmbeddings);
+      // Generate embeddings for the new chunks
+      let cacheStats: EmbeddingCacheStats = { hits: 0, misses: 0, entries: embeddingCache.size() };
+      if (newChunks.length > 0) {
+        console.log(`🔍 Generating embeddings for ${newChunks.length} chunks...`);
+
+        // Per-file embedding progress is derived from the chunks each update reports as embedded
+        const embeddedByFile = new Map<string, number>();
+        const reportProgress = (progress: EmbeddingProgress) => {
+          onProgress?.(progress);
+          const touchedFiles = new Set<string>();
+          progress.embeddedIndexes?.forEach((index) => {
+            const fileId = newChunks[index].fileId;
+            embeddedByFile.set(fileId, (embeddedByFile.get(fileId) || 0) + 1);
+            touchedFiles.add(fileId);
+          });
+          touchedFiles.forEach((fileId) => onFileProgress?.({ fileId, phase: "embedding", embeddedChunks: embeddedByFile.get(fileId) }));
+        };
+
+        // The provider batches and parallelizes requests; whatever is not embedded when time runs out is left for a re-embed
+        const { embeddings: results, cache } = await embedWithCache(
+          newChunks.map((chunk) => chunk.content),
+          { signal: embedController.signal, onProgress: reportProgress }
+        );
+        cacheStats = cache;
+        throwIfCancelled();
+
+        // Chunks that could not be embedded are recorded so they can be re-embedded later
+        const newFailed = newChunks.filter((_, index) => !results[index]).map((chunk) => chunk.id);
+        chunks = [...chunks, ...newChunks];
+        embeddings = { ...embeddings };
+        newChunks.forEach((chunk, index) => {
+          const embedding = results[index];
+          if (embedding) embeddings[chunk.id] = embedding;
+        });
+        failedChunkIds = [...failedChunkIds, ...newFailed];
 
-            // Check memory limits
-            if (allEmbeddings.length > MAX_EMBEDDINGS_IN_MEMORY) {
-              console.warn(`⚠️ Memory limit reached during embedding generation, stopping at ${allEmbeddings.length} embeddings`);
-              break;
-            }
+        changedFiles.forEach((file) => {
+          const failedCount = newChunks.filter((chunk) => chunk.fileId === file.id && newFailed.includes(chunk.id)).length;
+          const chunkCount = fileIndex[file.id]?.chunkCount || 0;
+          if (file.indexed) onFileProgress?.({ fileId: file.id, phase: "saving", embeddedChunks: chunkCount - failedCount, failedChunks: failedCount });
+        });
 
-            // Yield control to prevent blocking
-            await new Promise((resolve) => setTimeout(resolve, 0));
-          } catch (error) {
-            console.error(`Failed to generate embeddings for batch ${Math.floor(i / batchSize) + 1}:`, error);
-            // Continue with next batch
-          }
+        console.log(`✅ Generated ${newChunks.length - newFailed.length} embeddings with ${embeddingProvider.name}/${embeddingProvider.embeddingModel}`);
+        if (newFailed.length > 0) {
+          console.warn(`⚠️ ${newFailed.length} chunks failed to embed and can be re-embedded`);
         }
-
-        embeddings = allEmbeddings;
-        console.log(`✅ Generated ${embeddings.length} embeddings`);
       }
 
-      // Update persistence
-      persistenceService.setChunks(chunks);
-      persistenceService.setEmbeddings(embeddings);
+      // Update persistence in one transaction so a failure cannot leave a partial index
+      persistenceService.transaction(() => {
+        persistenceService.setFiles(requested ? files : storedFiles);
+        persistenceService.setFileIndex(fileIndex);
+        persistenceService.setChunks(chunks);
+        persistenceService.setEmbeddings(embeddings);
+        persistenceService.setFailedChunkIds(failedChunkIds);
+        recordEmbeddingModel();
+      });
+      changedFiles.forEach((file) => {
+        if (file.indexed) onFileProgress?.({ fileId: file.id, phase: "done" });
+      });
+      // The vectors are saved; without a vector index, search falls back to an exact scan
+      await buildVectorIndex().catch((error) => console.error("❌ Error building vector index:", error));
 
       // Force garbage collection after processing
       if (global.gc) {
@@ -176,46 +435,84 @@ export const createGoogleRAGService = (): GoogleRAGService => {
 
       const totalTime = Date.now() - startTime;
       console.log(`🎉 Google RAG indexing completed in ${totalTime}ms`);
+      return {
+        indexedFiles: changedFiles.filter((f) => f.indexed).length,
+        unchangedFiles: keptFileIds.size,
+        removedFiles,
+        totalChunks: chunks.length,
+        failedChunks: failedChunkIds.length,
+        cache: cacheStats,
+      };
     } catch (error) {
       console.error("Indexing failed:", error);
-      // Clear data on error to free memory
-      chunks = [];
-      embeddings = [];
-      persistenceService.setChunks(chunks);
-      persistenceService.setEmbeddings(embeddings);
+      // Keep serving the last persisted index
+      reloadState();
       throw error;
+    } finally {
+      clearTimeout(embedTimer);
+      signal?.removeEventListener("abort", stopEmbedding);
     }
   };
 
-  const search = async (query: string, topK: number = 5): Promise<SearchResult[]> => {
-    if (embeddings.length === 0 || chunks.length === 0) {
+  // Holds the lock for the whole run; the API routes reject other changes with 409 while a job runs instead of
+  // queueing them behind it
+  const indexFiles = (options: IndexFilesOptions = {}): Promise<IndexingResult> => mutate("indexing", () => runIndexFiles(options));
+
+  const semanticSearch = async (query: string, topK: number): Promise<SearchResult[]> => {
+    if (Object.keys(embeddings).length === 0 || chunks.length === 0) {
       console.log("No embeddings available for semantic search");
       return [];
     }
 
+    const mismatch = getEmbeddingModelMismatch();
+    if (mismatch) {
+      console.error(`❌ ${mismatch}`);
+      return [];
+    }
+
     try {
       // Generate query embedding
       console.log(`🔍 Generating query embedding for: "${query}"`);
-      const queryEmbedding = await geminiClient.embedContent(query);
+      const queryEmbedding = await embeddingProvider.embedContent(query);
 
       // Use search service with query embedding
-      return await searchService.search(query, queryEmbedding, chunks, embeddings, topK);
+      scheduleVectorIndexBuild();
+      return await searchService.search(query, queryEmbedding, chunks, embeddings, topK, persistenceService.getVectorIndex());
     } catch (error) {
       console.error("Semantic search failed:", error);
       return [];
     }
   };
 
-  const getContext = async (query: string, maxLength: number = 3000): Promise<string> => {
+  // Ranks chunks by keywords, embedding similarity or both (see hybrid-search.ts). With a reranker, more
+  // candidates are retrieved and the reranker picks the top K among them.
+  const search = async (query: string, topK: number = 5, mode: RetrievalMode = getDefaultRetrievalMode(), rerank: boolean = true): Promise<SearchResult[]> => {
+    const activeReranker = rerank ? reranker : undefined;
+    console.log(`🔍 ${mode} search for: "${query}"${activeReranker ? ` (${activeReranker.name} reranking)` : ""}`);
+    const results = await hybridSearchService.search(query, mode, chunks, (candidates) => semanticSearch(query, candidates), {
+      topK: activeReranker ? Math.max(topK, RERANK_CANDIDATES) : topK,
+      keywordIndex: persistenceService.getKeywordIndex(),
+    });
+    return activeReranker ? rerankResults(activeReranker, query, results, topK) : results;
+  };
+
+  const getContext = async (
+    query: string,
+    maxTokens: number = computeContextBudget({ model: llmProvider.defaultModel }),
+    mode: RetrievalMode = getDefaultRetrievalMode()
+  ): Promise<string> => {
     if (!query || query.trim().length === 0) {
       console.log("Empty query provided to getContext");
       return "";
     }
 
     try {
-      // Generate query embedding for context retrieval
-      const queryEmbedding = await geminiClient.embedContent(query);
-      return await searchService.getContext(query, queryEmbedding, chunks, embeddings, maxLength);
+      const results = await search(query, CONTEXT_CANDIDATES, mode);
+      if (results.length === 0) {
+        console.log("No search results found for context");
+        return "";
+      }
+      return buildContext(results, maxTokens);
     } catch (error) {
       console.error("Failed to get context:", error);
       return "";
@@ -223,8 +520,8 @@ export const createGoogleRAGService = (): GoogleRAGService => {
   };
 
   const isRAGAvailable = (): boolean => {
-    const available = chunks.length > 0 && embeddings.length > 0;
-    console.log(`Google RAG availability check: ${available} (${chunks.length} chunks, ${embeddings.length} embeddings)`);
+    const available = chunks.some((chunk) => hasEmbedding(embeddings[chunk.id]));
+    console.log(`Google RAG availability check: ${available} (${chunks.length} chunks, ${Object.keys(embeddings).length} embeddings)`);
     return available;
   };
 
@@ -235,66 +532,73 @@ export const createGoogleRAGService = (): GoogleRAGService => {
       indexedFiles: files.filter((f) => f.indexed).length,
       totalChunks: chunks.length,
       totalCharacters: files.reduce((sum, f) => sum + f.characterCount, 0),
+      embeddingModel: persistenceService.getEmbeddingModel(),
+      failedChunks: failedChunkIds.length,
     };
   };
 
   const debugIndex = (): RAGDebugInfo => {
     const files = persistenceService.getFiles();
-    console.log(`🔍 Debug index info: chunks=${chunks.length}, embeddings=${embeddings.length}`);
+    const failed = new Set(failedChunkIds);
+    console.log(`🔍 Debug index info: chunks=${chunks.length}, embeddings=${Object.keys(embeddings).length}, failed=${failed.size}`);
     return {
       chunks: chunks.map((c) => ({
         id: c.id,
         fileName: c.fileName,
         contentLength: c.content.length,
         contentPreview: c.content.substring(0, 100) + "...",
+        embeddingFailed: failed.has(c.id) || undefined,
       })),
       files: files.map((f) => ({
         id: f.id,
         name: f.name,
         indexed: f.indexed,
-        error: f.error,
+        error: f.error || f.indexError,
         contentLength: f.content.length,
       })),
     };
   };
 
-  const clear = (): void => {
+  const clear = (): Promise<void> => mutate("clear", () => {
     chunks = [];
-    embeddings = [];
+    embeddings = {};
+    failedChunkIds = [];
     // Update persistence
-    persistenceService.setChunks(chunks);
-    persistenceService.setEmbeddings(embeddings);
+    persistenceService.transaction(() => {
+      persistenceService.setChunks(chunks);
+      persistenceService.setEmbeddings(embeddings);
+      persistenceService.setFailedChunkIds(failedChunkIds);
+      persistenceService.setFileIndex({});
+      persistenceService.setEmbeddingModel(undefined);
+    });
     fileManager.clear();
-    geminiClient.clearMemory();
+    llmProvider.clearMemory();
+    embeddingProvider.clearMemory();
     console.log("Google RAG service cleared");
-  };
-
-  // RAG answer generation using Google Gemini
-  const ragAnswer = async (query: string): Promise<{ answer: string; context: string }> => {
+  });
+
+  // RAG answer generation using the configured LLM provider
+  const ragAnswer = async (
+    query: string,
+    templateId: string = JAPANESE_RAG_TEMPLATE_ID,
+    options: GenerationOptions = {}
+  ): Promise<{ answer: string; context: string }> => {
     try {
       if (!isRAGAvailable()) {
         throw new Error("Google RAG not available - no indexed content");
       }
 
-      // Get relevant context
-      const context = await getContext(query, 3000);
+      // Get relevant context sized for the answering model
+      const context = await getContext(query, computeContextBudget({ model: options.model || llmProvider.defaultModel, answerTokens: options.maxOutputTokens }));
       if (!context) {
         throw new Error("No relevant context found");
       }
 
-      // Build prompt similar to sampleRAG.py
-      const prompt = `あなたは検索強化されたアシスタントです。以下のコンテキストの内容に基づいて日本語で答えてください。コンテキストに無い場合は「不明です」と述べてください。引用は [1], [2] のように付けてください。
-
-# コンテキスト
-${context}
+      // Build prompt from the selected template (defaults to the sampleRAG.py style Japanese prompt)
+      const prompt = PromptTemplateService.getInstance().render(templateId, { context, question: query });
 
-# 質問
-${query}
-
-# 回答（日本語・必要に応じて [1], [2] で出典を明示）`;
-
-      // Generate answer using Gemini
-      const answer = await geminiClient.generateContent(prompt);
+      // Generate answer using the configured provider
+      const answer = await llmProvider.generateContent(prompt, options);
 
       return { answer, context };
     } catch (error) {
@@ -303,6 +607,85 @@ ${query}
     }
   };
 
+  // Retries the chunks whose embedding failed during indexing. Callers hold the mutation lock.
+  const reembed = async (): Promise<ReembedResult> => {
+    const mismatch = getEmbeddingModelMismatch();
+    if (mismatch) {
+      throw new Error(mismatch);
+    }
+
+    // Skip IDs of chunks that no longer exist
+    const failed = new Set(failedChunkIds);
+    const targets = chunks.filter((chunk) => failed.has(chunk.id));
+
+    console.log(`🔁 Re-embedding ${targets.length} failed chunks with ${embeddingProvider.name}/${embeddingProvider.embeddingModel}...`);
+    const { embeddings: results } = await embedWithCache(targets.map((chunk) => chunk.content));
+
+    const stillFailed: string[] = [];
+    embeddings = { ...embeddings };
+    results.forEach((embedding, i) => {
+      if (embedding) {
+        embeddings[targets[i].id] = embedding;
+      } else {
+        stillFailed.push(targets[i].id);
+      }
+    });
+
+    failedChunkIds = stillFailed;
+    persistenceService.transaction(() => {
+      persistenceService.setEmbeddings(embeddings);
+      persistenceService.setFailedChunkIds(failedChunkIds);
+      if (!persistenceService.getEmbeddingModel()) {
+        recordEmbeddingModel();
+      }
+    });
+
+    const result = { attempted: targets.length, recovered: targets.length - stillFailed.length, failedChunkIds };
+    console.log(`✅ Re-embedded ${result.recovered}/${result.attempted} chunks, ${stillFailed.length} still failing`);
+    return result;
+  };
+
+  const reembedFailedChunks = (): Promise<ReembedResult> => mutate("re-embed", reembed);
+
+  const checkIntegrity = (): IndexIntegrityReport => {
+    const report = checkIndexIntegrity(chunks, embeddings, failedChunkIds, persistenceService.getEmbeddingModel()?.dimensions);
+    console.log(
+      `🩺 Index integrity: ${report.healthy ? "healthy" : "issues found"} (${report.orphanedEmbeddings.length} orphaned, ${report.missingEmbeddings.length} missing, ${report.dimensionMismatches.length} mismatched, ${report.staleFailedChunkIds.length} stale failure records)`
+    );
+    return report;
+  };
+
+  // Drops orphaned and wrongly sized vectors, records every chunk without a vector as failed and re-embeds those chunks
+  const repairIndex = (options: RepairIndexOptions = {}): Promise<IndexRepairResult> => mutate("repair", async () => {
+    const { reembed: shouldReembed = true } = options;
+    const before = checkIntegrity();
+
+    const invalid = new Set([...before.orphanedEmbeddings, ...before.dimensionMismatches.map((mismatch) => mismatch.chunkId)]);
+    embeddings = Object.fromEntries(Object.entries(embeddings).filter(([chunkId]) => !invalid.has(chunkId)));
+    failedChunkIds = chunks.filter((chunk) => !hasEmbedding(embeddings[chunk.id])).map((chunk) => chunk.id);
+
+    persistenceService.transaction(() => {
+      persistenceService.setEmbeddings(embeddings);
+      persistenceService.setFailedChunkIds(failedChunkIds);
+      if (Object.keys(embeddings).length === 0) {
+        recordEmbeddingModel();
+      }
+    });
+    console.log(`🔧 Removed ${invalid.size} invalid embeddings, ${failedChunkIds.length} chunks need a vector`);
+
+    let reembedResult: ReembedResult | undefined;
+    if (shouldReembed && failedChunkIds.length > 0) {
+      const mismatch = getEmbeddingModelMismatch();
+      if (mismatch) {
+        console.warn(`⚠️ Skipping re-embed: ${mismatch}`);
+      } else {
+        reembedResult = await reembed();
+      }
+    }
+
+    return { before, after: checkIntegrity(), removedEmbeddings: invalid.size, reembed: reembedResult };
+  });
+
   const instance: GoogleRAGService = {
     addFiles,
     removeFile,
@@ -315,6 +698,9 @@ ${query}
     debugIndex,
     clear,
     ragAnswer,
+    reembedFailedChunks,
+    checkIntegrity,
+    repairIndex,
   };
 
   return instance;
@@ -0,0 +1,382 @@
+import type { EmbeddingMap } from "./types";
+import { normalizeVector } from "./vector-file";
+
+// Hierarchical navigable small world graph (Malkov & Yashunin) for approximate nearest neighbour search by
+// cosine similarity. Vectors are normalized on insert, so similarity is a plain dot product.
+
+export interface HNSWOptions {
+  m?: number; // Links per node on the upper layers; layer 0 keeps twice as many
+  efConstruction?: number; // Candidates considered when linking a new node
+  efSearch?: number; // Candidates considered per query; higher finds more true neighbours but is slower
+}
+
+export interface VectorSearchHit {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+export interface HNSWIndex {
+  dimensions: number;
+  size: () => number;
+  has: (id: string) => boolean;
+  // Adds or replaces a vector; vectors of another size are not indexed and return false
+  add: (id: string, vector: ArrayLike<number>) => boolean;
+  remove: (id: string) => boolean;
+  ids: () => string[];
+  search: (query: ArrayLike<number>, k: number) => VectorSearchHit[];
+  serialize: () => Buffer;
+}
+
+interface Candidate {
+  node: number;
+  score: number;
+}
+
+interface GraphState {
+  dimensions: number;
+  ids: string[];
+  vectors: Array<Float32Array | undefined>; // undefined for removed nodes
+  levels: number[];
+  links: number[][][]; // links[node][level] = neighbour nodes
+  entryPoint: number; // -1 while empty
+  maxLevel: number;
+}
+
+const DEFAULT_OPTIONS: Required<HNSWOptions> = { m: 16, efConstruction: 100, efSearch: 64 };
+const MAX_LEVEL = 16;
+// Removed nodes keep their slot until they make up this share of all nodes; then the graph is compacted
+const MAX_REMOVED_SHARE = 0.25;
+const MAGIC = "HNSW";
+const VERSION = 1;
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// Binary heap; `first(a, b)` is true when `a` belongs closer to the root
+const createHeap = <T>(first: (a: T, b: T) => boolean) => {
+  const items: T[] = [];
+
+  const push = (item: T): void => {
+    items.push(item);
+    for (let i = items.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (!first(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  };
+
+  const pop = (): T | undefined => {
+    const root = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && first(items[left], items[next])) next = left;
+        if (right < items.length && first(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return root;
+  };
+
+  return { push, pop, peek: (): T | undefined => items[0], size: () => items.length, items: () => items };
+};
+
+const createIndex = (state: GraphState, options: HNSWOptions): HNSWIndex => {
+  const { m, efConstruction, efSearch } = { ...DEFAULT_OPTIONS, ...options };
+  const { dimensions, ids, vectors, levels, links } = state;
+  const levelFactor = 1 / Math.log(m);
+  const nodesById = new Map<string, number>();
+  ids.forEach((id, node) => {
+    if (vectors[node]) nodesById.set(id, node);
+  });
+  let removedNodes = ids.length - nodesById.size;
+
+  const maxLinks = (level: number): number => (level === 0 ? 2 * m : m);
+
+  // Nodes seen by the current layer search carry the current epoch, which avoids allocating a set per search
+  let visitMarks = new Uint32Array(0);
+  let visitEpoch = 0;
+
+  const startVisit = (): void => {
+    if (visitMarks.length < ids.length) {
+      visitMarks = new Uint32Array(Math.max(1024, ids.length * 2));
+      visitEpoch = 0;
+    }
+    visitEpoch++;
+  };
+
+  const randomLevel = (): number => Math.min(MAX_LEVEL, Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * levelFactor));
+
+  // Best-first search of one layer; returns up to `ef` nodes, most similar first
+  const searchLayer = (query: Float32Array, entry: Candidate[], ef: number, level: number): Candidate[] => {
+    startVisit();
+    entry.forEach((candidate) => {
+      visitMarks[candidate.node] = visitEpoch;
+    });
+    const candidates = createHeap<Candidate>((a, b) => a.score > b.score);
+    const results = createHeap<Candidate>((a, b) => a.score < b.score);
+    entry.forEach((candidate) => {
+      candidates.push(candidate);
+      results.push(candidate);
+    });
+
+    while (candidates.size() > 0) {
+      const current = candidates.pop()!;
+      if (results.size() >= ef && current.score < results.peek()!.score) break;
+
+      for (const neighbor of links[current.node][level] || []) {
+        if (visitMarks[neighbor] === visitEpoch) continue;
+        visitMarks[neighbor] = visitEpoch;
+        const vector = vectors[neighbor];
+        if (!vector) continue;
+
+        const score = dot(query, vector);
+        if (results.size() < ef || score > results.peek()!.score) {
+          candidates.push({ node: neighbor, score });
+          results.push({ node: neighbor, score });
+          if (results.size() > ef) results.pop();
+        }
+      }
+    }
+    return [...results.items()].sort((a, b) => b.score - a.score);
+  };
+
+  // Neighbour selection heuristic: a candidate is kept only if it is closer to the base node than to every kept
+  // neighbour, which spreads links across clusters. Remaining slots are filled with the closest skipped candidates.
+  const selectNeighbors = (candidates: Candidate[], max: number): number[] => {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    for (const candidate of [...candidates].sort((a, b) => b.score - a.score)) {
+      if (selected.length >= max) break;
+      const vector = vectors[candidate.node]!;
+      if (selected.every((kept) => dot(vector, vectors[kept.node]!) < candidate.score)) selected.push(candidate);
+      else skipped.push(candidate);
+    }
+    return [...selected, ...skipped.slice(0, max - selected.length)].map((candidate) => candidate.node);
+  };
+
+  const scoreAgainst = (base: number, nodes: Iterable<number>): Candidate[] => {
+    const vector = vectors[base]!;
+    return [...nodes].filter((node) => node !== base && vectors[node]).map((node) => ({ node, score: dot(vector, vectors[node]!) }));
+  };
+
+  // Links a new node to the selected neighbours and back. A neighbour with too many links drops its least similar
+  // one; running the full heuristic there would cost a quadratic number of comparisons per insert.
+  const linkNode = (node: number, level: number, candidates: Candidate[]): void => {
+    links[node][level] = selectNeighbors(candidates, maxLinks(level));
+    links[node][level].forEach((neighbor) => {
+      const neighborLinks = links[neighbor][level];
+      neighborLinks.push(node);
+      if (neighborLinks.length > maxLinks(level)) {
+        const scored = scoreAgainst(neighbor, neighborLinks);
+        const weakest = scored.reduce((min, candidate) => (candidate.score < min.score ? candidate : min), scored[0]);
+        links[neighbor][level] = scored.filter((candidate) => candidate !== weakest).map((candidate) => candidate.node);
+      }
+    });
+  };
+
+  // Drops removed nodes and the links to them, and renumbers the rest in place, so re-indexing does not grow the
+  // graph until the next save and reload
+  const compact = (): void => {
+    const renumbered = new Int32Array(ids.length).fill(-1);
+    let live = 0;
+    ids.forEach((_, node) => {
+      if (vectors[node]) renumbered[node] = live++;
+    });
+
+    // Nodes only move to lower numbers, so each is read before its slot is reused
+    ids.forEach((id, node) => {
+      const target = renumbered[node];
+      if (target < 0) return;
+      ids[target] = id;
+      vectors[target] = vectors[node];
+      levels[target] = levels[node];
+      links[target] = links[node].map((neighbors) => neighbors.map((neighbor) => renumbered[neighbor]).filter((neighbor) => neighbor >= 0));
+    });
+    ids.length = vectors.length = levels.length = links.length = live;
+
+    nodesById.clear();
+    ids.forEach((nodeId, node) => nodesById.set(nodeId, node));
+    state.entryPoint = state.entryPoint >= 0 ? renumbered[state.entryPoint] : -1;
+    removedNodes = 0;
+  };
+
+  const remove = (id: string): boolean => {
+    const node = nodesById.get(id);
+    if (node === undefined) return false;
+    nodesById.delete(id);
+    vectors[node] = undefined;
+
+    // Neighbours that linked through the removed node are relinked among its other neighbours
+    links[node].forEach((neighbors, level) => {
+      neighbors.forEach((neighbor) => {
+        if (!vectors[neighbor]) return;
+        const candidates = new Set([...links[neighbor][level], ...neighbors]);
+        links[neighbor][level] = selectNeighbors(scoreAgainst(neighbor, candidates), maxLinks(level));
+      });
+    });
+    links[node] = [];
+
+    if (node === state.entryPoint) {
+      state.entryPoint = -1;
+      state.maxLevel = -1;
+      nodesById.forEach((candidate) => {
+        if (levels[candidate] > state.maxLevel) {
+          state.entryPoint = candidate;
+          state.maxLevel = levels[candidate];
+        }
+      });
+    }
+
+    removedNodes++;
+    if (removedNodes > ids.length * MAX_REMOVED_SHARE) compact();
+    return true;
+  };
+
+  const add = (id: string, values: ArrayLike<number>): boolean => {
+    if (values.length !== dimensions) return false;
+    remove(id);
+
+    const vector = normalizeVector(values);
+    const node = ids.length;
+    const level = randomLevel();
+    ids.push(id);
+    vectors.push(vector);
+    levels.push(level);
+    links.push(Array.from({ length: level + 1 }, () => []));
+    nodesById.set(id, node);
+
+    if (state.entryPoint < 0) {
+      state.entryPoint = node;
+      state.maxLevel = level;
+      return true;
+    }
+
+    let entry: Candidate[] = [{ node: state.entryPoint, score: dot(vector, vectors[state.entryPoint]!) }];
+    for (let l = state.maxLevel; l > level; l--) entry = searchLayer(vector, entry, 1, l);
+    for (let l = Math.min(level, state.maxLevel); l >= 0; l--) {
+      const candidates = searchLayer(vector, entry, efConstruction, l);
+      linkNode(node, l, candidates);
+      entry = candidates;
+    }
+
+    if (level > state.maxLevel) {
+      state.entryPoint = node;
+      state.maxLevel = level;
+    }
+    return true;
+  };
+
+  const search = (values: ArrayLike<number>, k: number): VectorSearchHit[] => {
+    if (state.entryPoint < 0 || values.length !== dimensions || k <= 0) return [];
+
+    const query = normalizeVector(values);
+    let entry: Candidate[] = [{ node: state.entryPoint, score: dot(query, vectors[state.entryPoint]!) }];
+    for (let l = state.maxLevel; l > 0; l--) entry = searchLayer(query, entry, 1, l);
+    return searchLayer(query, entry, Math.max(efSearch, k), 0)
+      .slice(0, k)
+      .map((candidate) => ({ id: ids[candidate.node], score: candidate.score }));
+  };
+
+  // Layout: "HNSW" | header length u32 | header JSON (zero-padded to 4 bytes) | int32 per node: level, then per
+  // level the link count and the links. Removed nodes are dropped and the rest renumbered.
+  const serialize = (): Buffer => {
+    const live = ids.map((_, node) => node).filter((node) => vectors[node]);
+    const renumbered = new Int32Array(ids.length).fill(-1);
+    live.forEach((node, index) => {
+      renumbered[node] = index;
+    });
+
+    const graph: number[] = [];
+    live.forEach((node) => {
+      graph.push(levels[node]);
+      for (let level = 0; level <= levels[node]; level++) {
+        const neighbors = (links[node][level] || []).map((neighbor) => renumbered[neighbor]).filter((neighbor) => neighbor >= 0);
+        graph.push(neighbors.length, ...neighbors);
+      }
+    });
+
+    const header = Buffer.from(
+      JSON.stringify({
+        version: VERSION,
+        dimensions,
+        options: { m, efConstruction, efSearch },
+        entryPoint: state.entryPoint >= 0 ? renumbered[state.entryPoint] : -1,
+        maxLevel: state.maxLevel,
+        ids: live.map((node) => ids[node]),
+      })
+    );
+    const graphOffset = 8 + Math.ceil(header.length / 4) * 4;
+    const data = Buffer.alloc(graphOffset + graph.length * 4);
+    data.write(MAGIC, 0, "ascii");
+    data.writeUInt32LE(header.length, 4);
+    header.copy(data, 8);
+    new Int32Array(data.buffer, data.byteOffset + graphOffset, graph.length).set(graph);
+    return data;
+  };
+
+  return {
+    dimensions,
+    size: () => nodesById.size,
+    has: (id) => nodesById.has(id),
+    add,
+    remove,
+    ids: () => [...nodesById.keys()],
+    search,
+    serialize,
+  };
+};
+
+export const createHNSWIndex = (dimensions: number, options: HNSWOptions = {}): HNSWIndex =>
+  createIndex({ dimensions, ids: [], vectors: [], levels: [], links: [], entryPoint: -1, maxLevel: -1 }, options);
+
+// Restores a serialized graph; vectors are taken from `embeddings`. Nodes whose vector is gone are removed.
+export const deserializeHNSWIndex = (data: Uint8Array, embeddings: EmbeddingMap): HNSWIndex => {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (buffer.length < 8 || buffer.toString("ascii", 0, 4) !== MAGIC) throw new Error("Not a serialized HNSW index");
+
+  const headerLength = buffer.readUInt32LE(4);
+  const header = JSON.parse(buffer.toString("utf-8", 8, 8 + headerLength));
+  if (header.version !== VERSION) throw new Error(`Unsupported HNSW index version ${header.version}`);
+
+  const graphOffset = 8 + Math.ceil(headerLength / 4) * 4;
+  const graph = new Int32Array(buffer.buffer.slice(buffer.byteOffset + graphOffset, buffer.byteOffset + buffer.length));
+  const ids: string[] = header.ids;
+  const levels: number[] = [];
+  const links: number[][][] = [];
+  let position = 0;
+  ids.forEach(() => {
+    const level = graph[position++];
+    const nodeLinks: number[][] = [];
+    for (let l = 0; l <= level; l++) {
+      const count = graph[position++];
+      nodeLinks.push(Array.from(graph.subarray(position, position + count)));
+      position += count;
+    }
+    levels.push(level);
+    links.push(nodeLinks);
+  });
+  if (position !== graph.length) throw new Error("Serialized HNSW index is truncated or corrupt");
+
+  const missing: string[] = [];
+  const vectors = ids.map((id) => {
+    const vector = embeddings[id];
+    if (vector?.length === header.dimensions) return normalizeVector(vector);
+    missing.push(id);
+    return new Float32Array(header.dimensions);
+  });
+
+  const index = createIndex({ dimensions: header.dimensions, ids, vectors, levels, links, entryPoint: header.entryPoint, maxLevel: header.maxLevel }, header.options);
+  missing.forEach((id) => index.remove(id));
+  return index;
+};
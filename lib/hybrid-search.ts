@@ -0,0 +1,106 @@
+import type { Chunk, RetrievalMode, SearchResult } from "./types";
+import { createSearchEngine } from "./search-engine";
+import type { BM25Index } from "./bm25-index";
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ["keyword", "semantic", "hybrid"];
+
+export const isRetrievalMode = (value: unknown): value is RetrievalMode => RETRIEVAL_MODES.includes(value as RetrievalMode);
+
+// Mode used when a request does not name one, from RAG_RETRIEVAL_MODE (default semantic)
+export const getDefaultRetrievalMode = (): RetrievalMode => {
+  const mode = process.env.RAG_RETRIEVAL_MODE;
+  return isRetrievalMode(mode) ? mode : "semantic";
+};
+
+// rrf: reciprocal rank fusion, which only uses ranks; weighted: min-max normalized scores mixed by `semanticWeight`
+export type FusionMethod = "rrf" | "weighted";
+
+export interface HybridSearchOptions {
+  topK?: number;
+  fusion?: FusionMethod;
+  semanticWeight?: number; // Share of the semantic score in weighted fusion, 0 to 1
+  rrfK?: number; // Damps the weight of top ranks in reciprocal rank fusion
+  candidates?: number; // Results taken from each retriever before fusion; defaults to 4 × topK
+  keywordIndex?: BM25Index; // Persisted keyword index over the chunks; built per search when missing
+}
+
+export interface HybridSearchService {
+  // `semanticSearch` ranks chunks by embedding similarity; it is not called in keyword mode
+  search: (
+    query: string,
+    mode: RetrievalMode,
+    chunks: Chunk[],
+    semanticSearch: (topK: number) => Promise<SearchResult[]>,
+    options?: HybridSearchOptions
+  ) => Promise<SearchResult[]>;
+}
+
+const DEFAULT_RRF_K = 60;
+
+// Scales scores of one result list to 0..1; a list of equal scores maps to 1
+const normalizeScores = (results: SearchResult[]): Map<string, number> => {
+  const scores = results.map((result) => result.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return new Map(results.map((result) => [result.chunk.id, range > 0 ? (result.score - min) / range : 1]));
+};
+
+// Merges the keyword and semantic rankings of the same chunks into one. Each result keeps the score it had in
+// either ranking under `scores`; `score` is the fused score.
+export const fuseResults = (keyword: SearchResult[], semantic: SearchResult[], options: HybridSearchOptions = {}): SearchResult[] => {
+  const { topK = 5, fusion = "rrf", semanticWeight = 0.5, rrfK = DEFAULT_RRF_K } = options;
+  const fused = new Map<string, SearchResult>();
+
+  const contribute = (results: SearchResult[], source: "keyword" | "semantic", weight: number, scoreOf: (result: SearchResult, rank: number) => number) => {
+    results.forEach((result, rank) => {
+      const entry = fused.get(result.chunk.id) || { chunk: result.chunk, content: result.content, score: 0, scores: {} };
+      entry.score += weight * scoreOf(result, rank);
+      entry.scores = { ...entry.scores, [source]: result.score };
+      fused.set(result.chunk.id, entry);
+    });
+  };
+
+  if (fusion === "rrf") {
+    const reciprocalRank = (_: SearchResult, rank: number) => 1 / (rrfK + rank + 1);
+    contribute(keyword, "keyword", 1 - semanticWeight, reciprocalRank);
+    contribute(semantic, "semantic", semanticWeight, reciprocalRank);
+  } else {
+    const keywordScores = normalizeScores(keyword);
+    const semanticScores = normalizeScores(semantic);
+    contribute(keyword, "keyword", 1 - semanticWeight, (result) => keywordScores.get(result.chunk.id)!);
+    contribute(semantic, "semantic", semanticWeight, (result) => semanticScores.get(result.chunk.id)!);
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+};
+
+// Runs the keyword scorer, the semantic search or both, depending on the mode
+export const createHybridSearchService = (): HybridSearchService => {
+  const keywordEngine = createSearchEngine();
+
+  const search = async (
+    query: string,
+    mode: RetrievalMode,
+    chunks: Chunk[],
+    semanticSearch: (topK: number) => Promise<SearchResult[]>,
+    options: HybridSearchOptions = {}
+  ): Promise<SearchResult[]> => {
+    const { topK = 5, candidates = topK * 4, keywordIndex } = options;
+
+    if (mode === "keyword") {
+      return keywordEngine.search(chunks, query, { topK, index: keywordIndex }).map((result) => ({ ...result, scores: { keyword: result.score } }));
+    }
+    if (mode === "semantic") {
+      return (await semanticSearch(topK)).map((result) => ({ ...result, scores: { semantic: result.score } }));
+    }
+
+    // Without vectors (e.g. a changed embedding model) hybrid search still returns the keyword matches
+    const keyword = keywordEngine.search(chunks, query, { topK: candidates, index: keywordIndex });
+    const semantic = await semanticSearch(candidates);
+    const results = fuseResults(keyword, semantic, { ...options, topK });
+    console.log(`🔀 Hybrid search fused ${keyword.length} keyword and ${semantic.length} semantic results into ${results.length}`);
+    return results;
+  };
+
+  return { search };
+};
@@ -0,0 +1,45 @@
+import type { Chunk, EmbeddingMap, IndexIntegrityReport } from "./types";
+
+// Most common vector length; used when the index has no recorded embedding model
+const getDominantDimensions = (embeddings: EmbeddingMap): number | undefined => {
+  const counts = new Map<number, number>();
+  Object.values(embeddings).forEach((vector) => counts.set(vector.length, (counts.get(vector.length) || 0) + 1));
+
+  let dominant: number | undefined;
+  counts.forEach((count, dimensions) => {
+    if (dominant === undefined || count > counts.get(dominant)!) dominant = dimensions;
+  });
+  return dominant;
+};
+
+// Compares chunks, vectors and failure records without modifying them
+export const checkIndexIntegrity = (
+  chunks: Chunk[],
+  embeddings: EmbeddingMap,
+  failedChunkIds: string[],
+  expectedDimensions: number | undefined = getDominantDimensions(embeddings)
+): IndexIntegrityReport => {
+  const chunkIds = new Set(chunks.map((chunk) => chunk.id));
+  const failed = new Set(failedChunkIds);
+  const hasVector = (chunkId: string): boolean => (embeddings[chunkId]?.length || 0) > 0;
+
+  const orphanedEmbeddings = Object.keys(embeddings).filter((chunkId) => !chunkIds.has(chunkId));
+  const missingEmbeddings = chunks.filter((chunk) => !hasVector(chunk.id) && !failed.has(chunk.id)).map((chunk) => chunk.id);
+  const dimensionMismatches = Object.entries(embeddings)
+    .filter(([chunkId, vector]) => chunkIds.has(chunkId) && expectedDimensions !== undefined && vector.length !== expectedDimensions)
+    .map(([chunkId, vector]) => ({ chunkId, dimensions: vector.length }));
+  const staleFailedChunkIds = failedChunkIds.filter((chunkId) => !chunkIds.has(chunkId) || hasVector(chunkId));
+
+  return {
+    healthy: orphanedEmbeddings.length === 0 && missingEmbeddings.length === 0 && dimensionMismatches.length === 0 && staleFailedChunkIds.length === 0,
+    checkedAt: new Date().toISOString(),
+    totalChunks: chunks.length,
+    totalEmbeddings: Object.keys(embeddings).length,
+    expectedDimensions,
+    orphanedEmbeddings,
+    missingEmbeddings,
+    failedChunks: failedChunkIds.filter((chunkId) => chunkIds.has(chunkId) && !hasVector(chunkId)),
+    dimensionMismatches,
+    staleFailedChunkIds,
+  };
+};
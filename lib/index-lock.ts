@@ -0,0 +1,48 @@
+// Serializes changes to the RAG index. Routes and background jobs each read the index, change it and write it
+// back; queueing them means one change never interleaves with another and overwrites its result.
+export class IndexMutationLock {
+  private static instance: IndexMutationLock;
+  private tail: Promise<void>;
+  private pending: number;
+
+  private constructor() {
+    this.tail = Promise.resolve();
+    this.pending = 0;
+  }
+
+  public static getInstance(): IndexMutationLock {
+    // Kept on globalThis so every route bundle and dev-server reload queues on the same lock
+    const globalLock = globalThis as typeof globalThis & { __indexMutationLock?: IndexMutationLock };
+    if (!IndexMutationLock.instance) {
+      IndexMutationLock.instance = globalLock.__indexMutationLock || new IndexMutationLock();
+      globalLock.__indexMutationLock = IndexMutationLock.instance;
+    }
+    return IndexMutationLock.instance;
+  }
+
+  // Runs `task` once every earlier task has settled. A failing task does not block the ones queued after it.
+  // Tasks must not call runExclusive themselves: they would wait for their own completion.
+  public runExclusive<T>(label: string, task: () => T | Promise<T>): Promise<T> {
+    if (this.pending > 0) {
+      console.log(`⏳ ${label} queued behind ${this.pending} index change(s)`);
+    }
+    this.pending++;
+
+    const run = this.tail.then(async () => {
+      try {
+        return await task();
+      } finally {
+        this.pending--;
+      }
+    });
+    this.tail = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  public isLocked(): boolean {
+    return this.pending > 0;
+  }
+}
@@ -2,10 +2,21 @@ export * from "./types";
 export * from "./rag-service";
 export * from "./google-rag-service";
 export * from "./gemini-client";
+export * from "./ollama-client";
+export * from "./openai-client";
+export * from "./llm-provider";
 export * from "./rag-search";
+export * from "./hnsw-index";
+export * from "./hybrid-search";
+export * from "./bm25-index";
+export * from "./tokenizer";
+export * from "./reranker";
+export * from "./index-integrity";
 export * from "./rag-file-manager";
 export * from "./rag-usage-example";
 export * from "./text-chunker";
 export * from "./pdf-utils";
 export * from "./search-engine";
+export * from "./token-budget";
+export * from "./context-builder";
 export * from "./utils";
@@ -0,0 +1,212 @@
+import { createGoogleRAGService, type FileIndexingPhase, type FileIndexingUpdate, type IndexingResult } from "./google-rag-service";
+
+export type IndexingJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface FileIndexingProgress {
+  fileId: string;
+  fileName: string;
+  phase: FileIndexingPhase;
+  chunks: number;
+  embeddedChunks: number;
+  failedChunks: number;
+  error?: string;
+}
+
+export interface IndexingJob {
+  id: string;
+  status: IndexingJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  files: FileIndexingProgress[];
+  totalChunks: number;
+  embeddedChunks: number;
+  failedChunks: number;
+  textsPerSecond: number;
+  result?: IndexingResult;
+  error?: string;
+}
+
+export type IndexingJobListener = (job: IndexingJob) => void;
+
+// Finished jobs kept for status requests
+const MAX_FINISHED_JOBS = 20;
+
+export const isJobFinished = (job: IndexingJob): boolean => job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+
+// Runs indexing jobs one at a time in the background; indexing mutates the shared index, so jobs never overlap
+export class IndexingJobService {
+  private static instance: IndexingJobService;
+  private jobs: Map<string, IndexingJob>;
+  private queue: Array<{ jobId: string; fileIds: string[] }>;
+  private controllers: Map<string, AbortController>;
+  private listeners: Map<string, Set<IndexingJobListener>>;
+  private isProcessing: boolean;
+
+  private constructor() {
+    this.jobs = new Map();
+    this.queue = [];
+    this.controllers = new Map();
+    this.listeners = new Map();
+    this.isProcessing = false;
+  }
+
+  public static getInstance(): IndexingJobService {
+    // Kept on globalThis so every route bundle and dev-server reload sees the same jobs
+    const globalJobs = globalThis as typeof globalThis & { __indexingJobService?: IndexingJobService };
+    if (!IndexingJobService.instance) {
+      IndexingJobService.instance = globalJobs.__indexingJobService || new IndexingJobService();
+      globalJobs.__indexingJobService = IndexingJobService.instance;
+    }
+    return IndexingJobService.instance;
+  }
+
+  // Queues the given stored files for indexing and returns immediately
+  public createJob(fileIds: string[]): IndexingJob {
+    const files = createGoogleRAGService().getFiles();
+    const job: IndexingJob = {
+      id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      status: "queued",
+      createdAt: new Date().toISOString(),
+      files: fileIds.flatMap((fileId) => {
+        const file = files.find((f) => f.id === fileId);
+        return file ? [{ fileId, fileName: file.name, phase: "pending" as const, chunks: 0, embeddedChunks: 0, failedChunks: 0 }] : [];
+      }),
+      totalChunks: 0,
+      embeddedChunks: 0,
+      failedChunks: 0,
+      textsPerSecond: 0,
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push({ jobId: job.id, fileIds });
+    this.controllers.set(job.id, new AbortController());
+    console.log(`📋 Queued indexing job ${job.id} for ${job.files.length} files`);
+
+    void this.processQueue();
+    return job;
+  }
+
+  public getJob(id: string): IndexingJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  // True while a job is queued or running; other index mutations should wait
+  public hasActiveJobs(): boolean {
+    return this.isProcessing || this.queue.length > 0;
+  }
+
+  // Calls the listener with the job after every change until it finishes; returns an unsubscribe function
+  public subscribe(id: string, listener: IndexingJobListener): () => void {
+    const listeners = this.listeners.get(id) || new Set<IndexingJobListener>();
+    listeners.add(listener);
+    this.listeners.set(id, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(id) === listeners) this.listeners.delete(id);
+    };
+  }
+
+  private notify(job: IndexingJob): void {
+    this.listeners.get(job.id)?.forEach((listener) => {
+      try {
+        listener(job);
+      } catch (error) {
+        console.error(`❌ Indexing job listener failed for ${job.id}:`, error);
+      }
+    });
+  }
+
+  // Queued jobs are cancelled at once; a running job stops at its next checkpoint and keeps the previous index
+  public cancelJob(id: string): IndexingJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job || isJobFinished(job)) return job;
+
+    this.controllers.get(id)?.abort();
+    if (job.status === "queued") {
+      this.queue = this.queue.filter((entry) => entry.jobId !== id);
+      this.finishJob(job, "cancelled");
+    }
+    console.log(`🛑 Cancellation requested for indexing job ${id}`);
+    return job;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const { jobId, fileIds } = this.queue.shift()!;
+        const job = this.jobs.get(jobId);
+        if (job && !isJobFinished(job)) {
+          await this.runJob(job, fileIds);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runJob(job: IndexingJob, fileIds: string[]): Promise<void> {
+    const controller = this.controllers.get(job.id)!;
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    console.log(`⚙️ Running indexing job ${job.id}`);
+    this.notify(job);
+
+    try {
+      const ragService = createGoogleRAGService();
+      job.result = await ragService.indexFiles({
+        fileIds,
+        signal: controller.signal,
+        timeoutMs: 0, // Background jobs are not bound by a request timeout
+        onFileProgress: (update) => this.applyFileUpdate(job, update),
+        // Chunk counts are summed from the files, which include unchanged files
+        onProgress: (progress) => {
+          job.failedChunks = progress.failed;
+          job.textsPerSecond = progress.textsPerSecond;
+          this.notify(job);
+        },
+      });
+      this.finishJob(job, "completed");
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      job.error = cancelled ? undefined : error instanceof Error ? error.message : "Unknown error";
+      this.finishJob(job, cancelled ? "cancelled" : "failed");
+      if (!cancelled) console.error(`❌ Indexing job ${job.id} failed:`, error);
+    }
+  }
+
+  private applyFileUpdate(job: IndexingJob, update: FileIndexingUpdate): void {
+    const file = job.files.find((f) => f.fileId === update.fileId);
+    if (!file) return;
+
+    Object.assign(file, update);
+    job.totalChunks = job.files.reduce((sum, f) => sum + f.chunks, 0);
+    job.embeddedChunks = job.files.reduce((sum, f) => sum + f.embeddedChunks, 0);
+    this.notify(job);
+  }
+
+  private finishJob(job: IndexingJob, status: IndexingJobStatus): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    this.controllers.delete(job.id);
+
+    // Files that never reached a final phase share the job's outcome
+    job.files.forEach((file) => {
+      if (file.phase !== "done" && file.phase !== "unchanged" && file.phase !== "error") {
+        file.phase = status === "completed" ? "done" : status === "cancelled" ? "cancelled" : "error";
+        if (status === "failed") file.error = file.error || job.error;
+      }
+    });
+    console.log(`🏁 Indexing job ${job.id} ${status}`);
+    this.notify(job);
+    this.listeners.delete(job.id);
+
+    // Forget the oldest finished jobs
+    const finished = [...this.jobs.values()].filter(isJobFinished);
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach((old) => this.jobs.delete(old.id));
+  }
+}
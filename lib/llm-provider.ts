@@ -0,0 +1,172 @@
+import { createGeminiClient } from "./gemini-client";
+import { createOllamaClient } from "./ollama-client";
+import { createOpenAIClient } from "./openai-client";
+
+export type LLMProviderName = "gemini" | "ollama" | "openai";
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ["gemini", "ollama", "openai"];
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// A single prompt, or a multi-turn conversation ending with the latest user turn
+export type LLMInput = string | ChatTurn[];
+
+export interface SafetySettingOption {
+  category: string; // e.g. "HARM_CATEGORY_HARASSMENT"
+  threshold: string; // e.g. "BLOCK_ONLY_HIGH"
+}
+
+// Per-request generation parameters; providers ignore the ones they do not support
+export interface GenerationOptions {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  safetySettings?: SafetySettingOption[]; // Gemini only
+}
+
+export interface EmbeddingProgress {
+  completed: number;
+  failed: number;
+  total: number;
+  textsPerSecond: number;
+  embeddedIndexes?: number[]; // Indexes of the texts embedded since the previous update
+}
+
+export interface EmbedOptions {
+  onProgress?: (progress: EmbeddingProgress) => void;
+  signal?: AbortSignal; // Texts not yet sent when aborted are returned as failed
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  embeddingModel: string;
+  generateContent: (input: LLMInput, options?: GenerationOptions) => Promise<string>;
+  generateContentStream: (input: LLMInput, options?: GenerationOptions) => AsyncGenerator<string>;
+  embedContent: (text: string) => Promise<number[]>;
+  embedMultiple: (texts: string[], options?: EmbedOptions) => Promise<Array<number[] | null>>; // null where a text failed after retries
+  listModels: () => Promise<string[]>;
+  clearMemory: () => void;
+}
+
+export const isLLMProviderName = (value: unknown): value is LLMProviderName => {
+  return typeof value === "string" && LLM_PROVIDER_NAMES.includes(value as LLMProviderName);
+};
+
+// Validates generation options received in a request body
+export const parseGenerationOptions = (value: unknown): { options?: GenerationOptions; error?: string } => {
+  if (value === undefined || value === null) return { options: {} };
+  if (typeof value !== "object" || Array.isArray(value)) return { error: "Generation options must be an object" };
+
+  const raw = value as Record<string, unknown>;
+  const options: GenerationOptions = {};
+
+  const readNumber = (key: keyof GenerationOptions, min: number, max: number, integer = false): string | null => {
+    if (raw[key] === undefined) return null;
+    const num = raw[key];
+    if (typeof num !== "number" || Number.isNaN(num) || num < min || num > max || (integer && !Number.isInteger(num))) {
+      return `${key} must be ${integer ? "an integer" : "a number"} between ${min} and ${max}`;
+    }
+    (options[key] as number) = num;
+    return null;
+  };
+
+  const numberError =
+    readNumber("temperature", 0, 2) || readNumber("topP", 0, 1) || readNumber("topK", 1, 1000, true) || readNumber("maxOutputTokens", 1, 1000000, true);
+  if (numberError) return { error: numberError };
+
+  if (raw.model !== undefined) {
+    if (typeof raw.model !== "string" || !raw.model.trim()) return { error: "model must be a non-empty string" };
+    options.model = raw.model.trim();
+  }
+
+  if (raw.stopSequences !== undefined) {
+    if (!Array.isArray(raw.stopSequences) || !raw.stopSequences.every((s) => typeof s === "string")) {
+      return { error: "stopSequences must be an array of strings" };
+    }
+    options.stopSequences = raw.stopSequences;
+  }
+
+  if (raw.safetySettings !== undefined) {
+    const valid =
+      Array.isArray(raw.safetySettings) &&
+      raw.safetySettings.every((s) => s && typeof s.category === "string" && typeof s.threshold === "string");
+    if (!valid) return { error: "safetySettings must be an array of { category, threshold }" };
+    options.safetySettings = raw.safetySettings as SafetySettingOption[];
+  }
+
+  return { options };
+};
+
+// Validates a conversation received in a request body: user and assistant turns with text, ending with a user turn
+export const parseChatTurns = (value: unknown): { turns?: ChatTurn[]; error?: string } => {
+  if (!Array.isArray(value) || value.length === 0) return { error: "messages must be a non-empty array" };
+
+  for (const [i, turn] of value.entries()) {
+    if (!turn || typeof turn !== "object" || (turn.role !== "user" && turn.role !== "assistant")) {
+      return { error: `messages[${i}].role must be "user" or "assistant"` };
+    }
+    if (typeof turn.content !== "string") return { error: `messages[${i}].content must be a string` };
+  }
+  if (value[value.length - 1].role !== "user") return { error: "The last message must be from the user" };
+
+  return { turns: value.map(({ role, content }) => ({ role, content })) };
+};
+
+// Provider used when a caller does not ask for a specific one (LLM_PROVIDER env var)
+export const getDefaultProviderName = (): LLMProviderName => {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!configured) return "gemini";
+
+  if (!isLLMProviderName(configured)) {
+    console.warn(`⚠️ Unknown LLM_PROVIDER "${configured}", falling back to gemini`);
+    return "gemini";
+  }
+  return configured;
+};
+
+// Provider used for embeddings (EMBEDDING_PROVIDER env var, defaults to LLM_PROVIDER).
+// Setting it to "ollama" keeps indexing and search entirely on the local machine.
+export const getEmbeddingProviderName = (): LLMProviderName => {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (!configured) return getDefaultProviderName();
+
+  if (!isLLMProviderName(configured)) {
+    console.warn(`⚠️ Unknown EMBEDDING_PROVIDER "${configured}", falling back to LLM_PROVIDER`);
+    return getDefaultProviderName();
+  }
+  return configured;
+};
+
+// Returns a human readable error when the provider is missing required configuration
+export const getProviderConfigError = (name: LLMProviderName): string | null => {
+  switch (name) {
+    case "gemini":
+      return process.env.GEMINI_API_KEY ? null : "GEMINI_API_KEY environment variable not set";
+    case "openai":
+      return process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY ? null : "OPENAI_BASE_URL or OPENAI_API_KEY environment variable not set";
+    case "ollama":
+      return null;
+  }
+};
+
+export const createLLMProvider = (name: LLMProviderName = getDefaultProviderName()): LLMProvider => {
+  switch (name) {
+    case "gemini":
+      return createGeminiClient();
+    case "ollama":
+      return createOllamaClient();
+    case "openai":
+      return createOpenAIClient();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+};
+
+export const createEmbeddingProvider = (): LLMProvider => createLLMProvider(getEmbeddingProviderName());
@@ -0,0 +1,115 @@
+import type { EmbedOptions, GenerationOptions, LLMInput, LLMProvider } from "./llm-provider";
+import { createRateLimiter, embedInBatches, readEmbeddingLimits, readLines, toChatTurns, toProviderAPIError } from "./provider-utils";
+
+// Local Ollama configuration
+const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || "http://localhost:11434";
+const GEN_MODEL_DEFAULT = process.env.OLLAMA_MODEL || "phi3";
+const EMBED_MODEL = process.env.OLLAMA_EMBED_MODEL || "nomic-embed-text";
+
+// A local server has no rate limit, but more parallel requests only queue up behind each other
+const EMBED_LIMITS = readEmbeddingLimits("OLLAMA", { batchSize: 32, concurrency: 2, requestsPerMinute: 0 });
+const embedRateLimiter = createRateLimiter(EMBED_LIMITS.requestsPerMinute);
+
+export const createOllamaClient = (): LLMProvider => {
+  const post = async (endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${OLLAMA_BASE_URL}${endpoint}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw toProviderAPIError("Ollama", response);
+    }
+    return response;
+  };
+
+  // Ollama names sampling parameters after llama.cpp
+  const toRequest = (input: LLMInput, options: GenerationOptions, stream: boolean): Record<string, unknown> => ({
+    model: options.model || GEN_MODEL_DEFAULT,
+    messages: toChatTurns(input),
+    stream,
+    options: {
+      temperature: options.temperature,
+      top_p: options.topP,
+      top_k: options.topK,
+      num_predict: options.maxOutputTokens,
+      stop: options.stopSequences,
+    },
+  });
+
+  const generateContent = async (input: LLMInput, options: GenerationOptions = {}): Promise<string> => {
+    try {
+      const response = await post("/api/chat", toRequest(input, options, false));
+      const data = await response.json();
+      return data.message?.content || "";
+    } catch (error) {
+      console.error("Ollama content generation failed:", error);
+      throw error;
+    }
+  };
+
+  async function* generateContentStream(input: LLMInput, options: GenerationOptions = {}): AsyncGenerator<string> {
+    const response = await post("/api/chat", toRequest(input, options, true));
+    if (!response.body) {
+      throw new Error("Ollama API returned an empty stream");
+    }
+
+    // Ollama streams newline-delimited JSON objects
+    for await (const line of readLines(response.body)) {
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(data.error);
+      if (data.message?.content) yield data.message.content;
+      if (data.done) break;
+    }
+  }
+
+  const embedContent = async (text: string): Promise<number[]> => {
+    try {
+      const response = await post("/api/embed", { model: EMBED_MODEL, input: text });
+      const data = await response.json();
+      return data.embeddings?.[0] || [];
+    } catch (error) {
+      console.error("Ollama embedding generation failed:", error);
+      throw error;
+    }
+  };
+
+  const embedBatch = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const response = await post("/api/embed", { model: EMBED_MODEL, input: texts }, signal);
+    const data = await response.json();
+    return data.embeddings || [];
+  };
+
+  const embedMultiple = (texts: string[], options?: EmbedOptions): Promise<Array<number[] | null>> =>
+    embedInBatches(embedBatch, texts, EMBED_LIMITS, embedRateLimiter, options);
+
+  const listModels = async (): Promise<string[]> => {
+    const response = await fetch(`${OLLAMA_BASE_URL}/api/tags`);
+    if (!response.ok) {
+      throw toProviderAPIError("Ollama", response);
+    }
+
+    const data = await response.json();
+    return (data.models || []).map((m: { name: string }) => m.name);
+  };
+
+  const clearMemory = (): void => {
+    console.log("Ollama client memory cleared");
+  };
+
+  return {
+    name: "ollama",
+    defaultModel: GEN_MODEL_DEFAULT,
+    embeddingModel: EMBED_MODEL,
+    generateContent,
+    generateContentStream,
+    embedContent,
+    embedMultiple,
+    listModels,
+    clearMemory,
+  };
+};
@@ -0,0 +1,122 @@
+import type { EmbedOptions, GenerationOptions, LLMInput, LLMProvider } from "./llm-provider";
+import { createRateLimiter, embedInBatches, readEmbeddingLimits, readLines, toChatTurns, toProviderAPIError } from "./provider-utils";
+
+// OpenAI-compatible API configuration (OpenAI, LM Studio, vLLM, llama.cpp server, ...)
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const GEN_MODEL_DEFAULT = process.env.OPENAI_MODEL || "gpt-4o-mini";
+const EMBED_MODEL = process.env.OPENAI_EMBED_MODEL || "text-embedding-3-small";
+
+const EMBED_LIMITS = readEmbeddingLimits("OPENAI", { batchSize: 128, concurrency: 4, requestsPerMinute: 500 });
+const embedRateLimiter = createRateLimiter(EMBED_LIMITS.requestsPerMinute);
+
+export const createOpenAIClient = (): LLMProvider => {
+  const headers = (): Record<string, string> => {
+    const result: Record<string, string> = { "Content-Type": "application/json" };
+    if (OPENAI_API_KEY) {
+      result.Authorization = `Bearer ${OPENAI_API_KEY}`;
+    }
+    return result;
+  };
+
+  const post = async (endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${OPENAI_BASE_URL}${endpoint}`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw toProviderAPIError("OpenAI-compatible", response);
+    }
+    return response;
+  };
+
+  const toRequest = (input: LLMInput, options: GenerationOptions, stream: boolean): Record<string, unknown> => ({
+    model: options.model || GEN_MODEL_DEFAULT,
+    messages: toChatTurns(input),
+    stream,
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxOutputTokens,
+    stop: options.stopSequences,
+  });
+
+  const generateContent = async (input: LLMInput, options: GenerationOptions = {}): Promise<string> => {
+    try {
+      const response = await post("/chat/completions", toRequest(input, options, false));
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || "";
+    } catch (error) {
+      console.error("OpenAI-compatible content generation failed:", error);
+      throw error;
+    }
+  };
+
+  async function* generateContentStream(input: LLMInput, options: GenerationOptions = {}): AsyncGenerator<string> {
+    const response = await post("/chat/completions", toRequest(input, options, true));
+    if (!response.body) {
+      throw new Error("OpenAI-compatible API returned an empty stream");
+    }
+
+    // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice("data:".length).trim();
+      if (payload === "[DONE]") break;
+
+      const data = JSON.parse(payload);
+      const text = data.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  const embedContent = async (text: string): Promise<number[]> => {
+    try {
+      const response = await post("/embeddings", { model: EMBED_MODEL, input: text });
+      const data = await response.json();
+      return data.data?.[0]?.embedding || [];
+    } catch (error) {
+      console.error("OpenAI-compatible embedding generation failed:", error);
+      throw error;
+    }
+  };
+
+  const embedBatch = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const response = await post("/embeddings", { model: EMBED_MODEL, input: texts }, signal);
+    const data = await response.json();
+    // Results carry their input index; do not rely on the response order
+    const results: Array<{ index: number; embedding: number[] }> = data.data || [];
+    return [...results].sort((a, b) => a.index - b.index).map((result) => result.embedding);
+  };
+
+  const embedMultiple = (texts: string[], options?: EmbedOptions): Promise<Array<number[] | null>> =>
+    embedInBatches(embedBatch, texts, EMBED_LIMITS, embedRateLimiter, options);
+
+  const listModels = async (): Promise<string[]> => {
+    const response = await fetch(`${OPENAI_BASE_URL}/models`, { headers: headers() });
+    if (!response.ok) {
+      throw toProviderAPIError("OpenAI-compatible", response);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((m: { id: string }) => m.id);
+  };
+
+  const clearMemory = (): void => {
+    console.log("OpenAI-compatible client memory cleared");
+  };
+
+  return {
+    name: "openai",
+    defaultModel: GEN_MODEL_DEFAULT,
+    embeddingModel: EMBED_MODEL,
+    generateContent,
+    generateContentStream,
+    embedContent,
+    embedMultiple,
+    listModels,
+    clearMemory,
+  };
+};
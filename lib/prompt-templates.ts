@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { readWithRecovery, writeFileAtomic } from "./file-utils";
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  language: string; // Value of the {language} variable, e.g. "English" or "日本語"
+  template: string;
+  builtIn?: boolean;
+  updatedAt: string;
+}
+
+export type PromptVariables = Record<string, string>;
+
+// Variables filled in by the server when a template is rendered
+export const PROMPT_TEMPLATE_VARIABLES = ["context", "question", "history", "language"];
+
+export const DEFAULT_RAG_TEMPLATE_ID = "rag-default";
+export const JAPANESE_RAG_TEMPLATE_ID = "rag-ja";
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_RAG_TEMPLATE_ID,
+    name: "RAG (English)",
+    description: "Answers from uploaded documents, falls back to a general answer",
+    language: "English",
+    template: `Context from uploaded documents:
+
+{context}
+
+User question: {question}
+
+Please answer the user's question based on the provided context. If the context doesn't contain relevant information, you can provide a general answer. Always try to use the context first, and if the context is relevant, mention that you found this information in the uploaded documents.`,
+    builtIn: true,
+    updatedAt: new Date(0).toISOString(),
+  },
+  {
+    id: JAPANESE_RAG_TEMPLATE_ID,
+    name: "RAG (日本語・出典付き)",
+    description: "Answers strictly from the context in Japanese with [1], [2] citations",
+    language: "日本語",
+    template: `あなたは検索強化されたアシスタントです。以下のコンテキストの内容に基づいて{language}で答えてください。コンテキストに無い場合は「不明です」と述べてください。引用は [1], [2] のように付けてください。
+
+# コンテキスト
+{context}
+
+# 質問
+{question}
+
+# 回答（{language}・必要に応じて [1], [2] で出典を明示）`,
+    builtIn: true,
+    updatedAt: new Date(0).toISOString(),
+  },
+];
+
+// Replaces {name} placeholders; unknown placeholders are left untouched
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string => {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in variables ? variables[name] : match));
+};
+
+// Returns why a template cannot be saved, or null if it can
+export const validatePromptTemplate = (input: Partial<PromptTemplate>): string | null => {
+  if (!input.id || !input.name || !input.template) {
+    return "Template id, name and template text are required";
+  }
+  if (!input.template.includes("{question}")) {
+    return "Template must contain the {question} variable";
+  }
+  return null;
+};
+
+export class PromptTemplateService {
+  private static instance: PromptTemplateService;
+  private dataPath: string;
+  private customTemplates: PromptTemplate[];
+
+  private constructor() {
+    // Custom and edited templates live next to the RAG data
+    this.dataPath = path.join(process.cwd(), ".prompt-templates.json");
+    this.customTemplates = [];
+    this.loadData();
+  }
+
+  public static getInstance(): PromptTemplateService {
+    if (!PromptTemplateService.instance) {
+      PromptTemplateService.instance = new PromptTemplateService();
+    }
+    return PromptTemplateService.instance;
+  }
+
+  private loadData(): void {
+    try {
+      const templates = readWithRecovery(this.dataPath, (file): PromptTemplate[] => JSON.parse(fs.readFileSync(file, "utf-8")));
+      if (templates) {
+        this.customTemplates = templates;
+        console.log(`📁 Loaded ${this.customTemplates.length} custom prompt templates`);
+      }
+    } catch (error) {
+      console.error("❌ Error loading prompt templates:", error);
+      this.customTemplates = [];
+    }
+  }
+
+  // The templates only replace the current ones once they are written, so a failed save changes nothing
+  private saveData(templates: PromptTemplate[]): void {
+    try {
+      writeFileAtomic(this.dataPath, JSON.stringify(templates, null, 2));
+      this.customTemplates = templates;
+      console.log(`💾 Saved ${this.customTemplates.length} custom prompt templates`);
+    } catch (error) {
+      console.error("❌ Error saving prompt templates:", error);
+      throw error;
+    }
+  }
+
+  // Built-in templates, overridden by saved edits, followed by user-defined templates
+  public getTemplates(): PromptTemplate[] {
+    const builtIns = BUILT_IN_PROMPT_TEMPLATES.map((builtIn) => {
+      const override = this.customTemplates.find((t) => t.id === builtIn.id);
+      return override ? { ...override, builtIn: true } : builtIn;
+    });
+    const custom = this.customTemplates.filter((t) => !BUILT_IN_PROMPT_TEMPLATES.some((b) => b.id === t.id));
+    return [...builtIns, ...custom];
+  }
+
+  public getTemplate(id: string): PromptTemplate | undefined {
+    return this.getTemplates().find((t) => t.id === id);
+  }
+
+  public saveTemplate(input: Omit<PromptTemplate, "updatedAt" | "builtIn">): PromptTemplate {
+    const invalid = validatePromptTemplate(input);
+    if (invalid) throw new Error(invalid);
+
+    const template: PromptTemplate = {
+      id: input.id,
+      name: input.name,
+      description: input.description,
+      language: input.language || "English",
+      template: input.template,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.saveData([...this.customTemplates.filter((t) => t.id !== template.id), template]);
+    return this.getTemplate(template.id)!;
+  }
+
+  // Deleting a built-in template restores its default text
+  public deleteTemplate(id: string): void {
+    this.saveData(this.customTemplates.filter((t) => t.id !== id));
+  }
+
+  public render(id: string, variables: PromptVariables): string {
+    const template = this.getTemplate(id);
+    if (!template) throw new Error(`Unknown prompt template: ${id}`);
+    return renderPromptTemplate(template.template, { language: template.language, ...variables });
+  }
+}
@@ -0,0 +1,226 @@
+import type { ChatTurn, EmbedOptions, LLMInput } from "./llm-provider";
+
+// Shared helpers for LLM provider implementations
+
+export const toChatTurns = (input: LLMInput): ChatTurn[] => {
+  return typeof input === "string" ? [{ role: "user", content: input }] : input;
+};
+
+// HTTP error from a provider API; the status and Retry-After header drive the retry policy
+export class ProviderAPIError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderAPIError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  label?: string; // Used in log messages
+  signal?: AbortSignal; // Stops retrying once aborted
+}
+
+// Per-provider embedding throughput settings
+export interface EmbeddingLimits {
+  batchSize: number; // Texts per embedding request
+  concurrency: number; // Requests in flight at once
+  requestsPerMinute: number; // 0 disables rate limiting
+}
+
+export interface RateLimiter {
+  acquire: () => Promise<void>;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const toProviderAPIError = (providerLabel: string, response: Response): ProviderAPIError => {
+  return new ProviderAPIError(`${providerLabel} API error: ${response.status}`, response.status, parseRetryAfter(response.headers.get("retry-after")));
+};
+
+// The Gemini SDK only reports the status inside the message ("got status: 429 ...")
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (error instanceof ProviderAPIError) return error.status;
+  const match = error instanceof Error ? error.message.match(/(?:got status:|API error:)\s*(\d{3})/) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+const getRetryAfterHint = (error: unknown): number | undefined => {
+  if (error instanceof ProviderAPIError) return error.retryAfterMs;
+  const match = error instanceof Error ? error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Rate limits, timeouts, server errors and network failures are worth retrying; other 4xx are not
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxRetries = 4, baseDelayMs = 1000, maxDelayMs = 30000, label = "request" } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error) || options.signal?.aborted) {
+        throw error;
+      }
+
+      // Exponential backoff with jitter; a rate limit hint from the server takes precedence
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) + Math.random() * 250;
+      const rateLimited = getErrorStatus(error) === 429;
+      const delay = rateLimited ? Math.max(backoff, getRetryAfterHint(error) || 0) : backoff;
+
+      console.warn(`🔁 ${label} failed${rateLimited ? " (rate limited)" : ""}, retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+};
+
+// Limits can be overridden with <PREFIX>_EMBED_BATCH_SIZE, <PREFIX>_EMBED_CONCURRENCY and <PREFIX>_EMBED_RPM
+export const readEmbeddingLimits = (envPrefix: string, defaults: EmbeddingLimits): EmbeddingLimits => {
+  const read = (name: string, fallback: number): number => {
+    const value = process.env[`${envPrefix}_${name}`];
+    const parsed = value ? Number(value) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    batchSize: Math.max(1, read("EMBED_BATCH_SIZE", defaults.batchSize)),
+    concurrency: Math.max(1, read("EMBED_CONCURRENCY", defaults.concurrency)),
+    requestsPerMinute: read("EMBED_RPM", defaults.requestsPerMinute),
+  };
+};
+
+// Spaces request starts evenly so that at most requestsPerMinute start in any minute
+export const createRateLimiter = (requestsPerMinute: number): RateLimiter => {
+  const intervalMs = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  let nextSlot = 0;
+
+  const acquire = async (): Promise<void> => {
+    if (intervalMs === 0) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  };
+
+  return { acquire };
+};
+
+// Embeds texts in batched requests run by a bounded pool of workers. Batches that still fail
+// after retries, or are not started before the signal aborts, are returned as null so the
+// caller can record them instead of storing a fake vector. The signal is passed on to embedBatch
+// so that requests in flight are aborted too.
+export const embedInBatches = async (
+  embedBatch: (texts: string[], signal?: AbortSignal) => Promise<number[][]>,
+  texts: string[],
+  limits: EmbeddingLimits,
+  rateLimiter: RateLimiter,
+  options: EmbedOptions = {}
+): Promise<Array<number[] | null>> => {
+  const { onProgress, signal } = options;
+  const embeddings: Array<number[] | null> = new Array(texts.length).fill(null);
+  const batchStarts = Array.from({ length: Math.ceil(texts.length / limits.batchSize) }, (_, i) => i * limits.batchSize);
+  const startTime = Date.now();
+  let completed = 0;
+  let failed = 0;
+  let nextBatch = 0;
+
+  const getTextsPerSecond = (): number => {
+    const elapsedSeconds = (Date.now() - startTime) / 1000;
+    return elapsedSeconds > 0 ? completed / elapsedSeconds : 0;
+  };
+
+  console.log(`🔍 Generating embeddings for ${texts.length} texts in ${batchStarts.length} batches (concurrency ${limits.concurrency})...`);
+
+  const worker = async (): Promise<void> => {
+    while (nextBatch < batchStarts.length) {
+      const batchNumber = nextBatch++;
+      const start = batchStarts[batchNumber];
+      const batch = texts.slice(start, start + limits.batchSize);
+      let embeddedIndexes: number[] = [];
+
+      if (signal?.aborted) {
+        failed += batch.length;
+      } else {
+        try {
+          const vectors = await withRetry(
+            async () => {
+              await rateLimiter.acquire();
+              const result = await embedBatch(batch, signal);
+              if (result.length !== batch.length || result.some((vector) => !vector || vector.length === 0)) {
+                throw new Error(`Provider returned ${result.length} embeddings for ${batch.length} texts`);
+              }
+              return result;
+            },
+            { label: `Embedding batch ${batchNumber + 1}/${batchStarts.length}`, signal }
+          );
+
+          vectors.forEach((vector, i) => {
+            embeddings[start + i] = vector;
+          });
+          embeddedIndexes = batch.map((_, i) => start + i);
+          completed += batch.length;
+        } catch (error) {
+          console.error(`Failed to embed batch ${batchNumber + 1} after retries:`, error);
+          failed += batch.length;
+        }
+      }
+
+      onProgress?.({ completed, failed, total: texts.length, textsPerSecond: getTextsPerSecond(), embeddedIndexes });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limits.concurrency, batchStarts.length) }, worker));
+
+  const seconds = (Date.now() - startTime) / 1000;
+  console.log(`✅ Generated ${completed} embeddings in ${seconds.toFixed(1)}s (${getTextsPerSecond().toFixed(1)} texts/s)${failed > 0 ? `, ${failed} failed` : ""}`);
+  return embeddings;
+};
+
+// Yields each complete line of a streamed response body
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) yield line;
+        newlineIndex = buffer.indexOf("\n");
+      }
+    }
+
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,51 @@
+import type { Message } from "../components/chatUi/types";
+
+export interface QueryRewriterOptions {
+  maxHistoryMessages?: number; // Recent messages used to resolve references in the follow-up
+}
+
+export interface QueryRewriter {
+  condense: (message: string, history: Message[], generate: (prompt: string) => Promise<string>) => Promise<string>;
+}
+
+export const buildCondensePrompt = (transcript: string, message: string): string => {
+  return `Given the conversation below and a follow-up question, rewrite the follow-up as a standalone search query that can be understood without the conversation. Replace pronouns and references ("it", "that", "the second point", "それ") with what they refer to. Keep the language of the follow-up question. Answer with the rewritten query only.
+
+# Conversation
+${transcript}
+
+# Follow-up question
+${message}
+
+# Standalone query`;
+};
+
+export const createQueryRewriter = (options: QueryRewriterOptions = {}): QueryRewriter => {
+  const { maxHistoryMessages = 6 } = options;
+
+  const condense = async (message: string, history: Message[], generate: (prompt: string) => Promise<string>): Promise<string> => {
+    const recent = history.filter((m) => !m.isError && !m.isStreaming && m.content.trim().length > 0).slice(-maxHistoryMessages);
+
+    // The first question of a conversation is already standalone
+    if (recent.length === 0) {
+      return message;
+    }
+
+    const transcript = recent.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n");
+
+    try {
+      const rewritten = (await generate(buildCondensePrompt(transcript, message))).trim().replace(/^["'「]|["'」]$/g, "");
+      if (!rewritten) {
+        return message;
+      }
+
+      console.log(`🔁 Condensed follow-up "${message}" into search query "${rewritten}"`);
+      return rewritten;
+    } catch (error) {
+      console.error("Query condensation failed, searching with the raw message:", error);
+      return message;
+    }
+  };
+
+  return { condense };
+};
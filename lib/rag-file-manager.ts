@@ -5,6 +5,7 @@ export interface RAGFileManager {
   addFiles: (files: FileInfo[]) => void;
   removeFile: (fileId: string) => void;
   getFiles: () => FileInfo[];
+  indexFile: (file: FileInfo) => Promise<Chunk[]>;
   indexFiles: () => Promise<{ chunks: Chunk[]; totalChunks: number; totalCharacters: number }>;
   clear: () => void;
 }
@@ -15,9 +16,9 @@ export const createRAGFileManager = (): RAGFileManager => {
   const textChunker = createTextChunker();
 
   // Memory management constants
-  const MAX_CHUNKS_IN_MEMORY = 10000; // Limit total chunks in memory
+  const MAX_CHUNKS_IN_MEMORY = 40000; // Same as the embedding limit of the RAG service
   const MAX_FILE_SIZE = 500000; // 500KB max file size
-  const MAX_TOTAL_CHARS = 10000000; // 10MB total character limit
+  const MAX_TOTAL_CHARS = 32000000; // 32MB total character limit
   const CHUNK_BATCH_SIZE = 100; // Process chunks in batches
 
   const addFiles = (newFiles: FileInfo[]) => {
@@ -39,7 +40,9 @@ export const createRAGFileManager = (): RAGFileManager => {
       return;
     }
 
-    files = [...files, ...validFiles];
+    // A re-added file replaces the previous version
+    const newIds = new Set(validFiles.map((f) => f.id));
+    files = [...files.filter((f) => !newIds.has(f.id)), ...validFiles];
     console.log(`Added ${validFiles.length} valid files to RAG service`);
   };
 
@@ -53,19 +56,60 @@ export const createRAGFileManager = (): RAGFileManager => {
     return files;
   };
 
+  // Validates and chunks a single file; failures are recorded on file.indexError and yield no chunks
+  const indexFile = async (file: FileInfo): Promise<Chunk[]> => {
+    // A failure of an earlier attempt is retried
+    delete file.indexError;
+    try {
+      // Skip files with errors or empty content
+      if (file.error || !file.content || file.content.trim().length === 0) {
+        console.log(`⚠️ Skipping file ${file.name} due to error or empty content`);
+        return [];
+      }
+
+      // Check file size limits
+      if (file.content.length > MAX_FILE_SIZE) {
+        console.warn(`⚠️ File ${file.name} exceeds size limit (${file.characterCount.toLocaleString()} chars > ${MAX_FILE_SIZE.toLocaleString()}), skipping`);
+        file.indexError = "File too large for processing";
+        return [];
+      }
+
+      console.log(`📄 Processing file: ${file.name} (${file.characterCount.toLocaleString()} characters)`);
+
+      // Process file in chunks with memory management
+      const fileChunks = await processFileInBatches(file);
+      console.log(`🔍 File ${file.name}: processFileInBatches returned ${fileChunks ? fileChunks.length : "null"} chunks`);
+
+      if (!fileChunks || !Array.isArray(fileChunks)) {
+        console.error(`❌ Invalid chunks returned for file ${file.name}:`, fileChunks);
+        file.indexError = "Failed to create chunks";
+        return [];
+      }
+
+      return fileChunks;
+    } catch (fileError) {
+      console.error(`❌ Error processing file ${file.name}:`, fileError);
+      file.indexError = fileError instanceof Error ? fileError.message : "Unknown error occurred";
+      return [];
+    }
+  };
+
+  // Chunks only files that are not indexed yet; chunks of already indexed files are kept
   const indexFiles = async (): Promise<{ chunks: Chunk[]; totalChunks: number; totalCharacters: number }> => {
+    const pendingFiles = files.filter((file) => !file.indexed);
     console.log(`🚀 Starting RAG indexing process...`);
-    console.log(`📁 Processing ${files.length} files...`);
+    console.log(`📁 Processing ${pendingFiles.length} new or changed files (${files.length - pendingFiles.length} already indexed)...`);
 
     try {
-      // Clear previous chunks to free memory
-      chunks = [];
-
       // Force garbage collection hint (if available)
       if (global.gc) {
         global.gc();
       }
 
+      // Drop chunks from previous versions of the pending files, in one pass over the chunks
+      const pendingIds = new Set(pendingFiles.map((file) => file.id));
+      chunks = chunks.filter((chunk) => !pendingIds.has(chunk.fileId));
+
       let totalChunks = 0;
       let processedFiles = 0;
       let totalCharacters = 0;
@@ -74,8 +118,8 @@ export const createRAGFileManager = (): RAGFileManager => {
 
       // Process files in smaller batches to prevent memory spikes
       const batchSize = 5;
-      for (let i = 0; i < files.length; i += batchSize) {
-        const batch = files.slice(i, i + batchSize);
+      for (let i = 0; i < pendingFiles.length; i += batchSize) {
+        const batch = pendingFiles.slice(i, i + batchSize);
 
         // Check for timeout
         if (Date.now() - startTime > maxProcessingTime) {
@@ -83,58 +127,32 @@ export const createRAGFileManager = (): RAGFileManager => {
           break;
         }
 
-        console.log(`📦 Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(files.length / batchSize)}`);
+        console.log(`📦 Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(pendingFiles.length / batchSize)}`);
 
         // Process batch
         for (const file of batch) {
-          try {
-            // Skip files with errors or empty content
-            if (file.error || !file.content || file.content.trim().length === 0) {
-              console.log(`⚠️ Skipping file ${file.name} due to error or empty content`);
-              continue;
-            }
-
-            // Check file size limits
-            if (file.content.length > MAX_FILE_SIZE) {
-              console.warn(`⚠️ File ${file.name} exceeds size limit (${file.characterCount.toLocaleString()} chars > ${MAX_FILE_SIZE.toLocaleString()}), skipping`);
-              file.error = "File too large for processing";
-              continue;
-            }
-
-            console.log(`📄 Processing file: ${file.name} (${file.characterCount.toLocaleString()} characters)`);
-
-            // Process file in chunks with memory management
-            const fileChunks = await processFileInBatches(file);
-            console.log(`🔍 File ${file.name}: processFileInBatches returned ${fileChunks ? fileChunks.length : "null"} chunks`);
-
-            if (fileChunks && Array.isArray(fileChunks)) {
-              // Check memory limits before adding chunks
-              if (chunks.length + fileChunks.length > MAX_CHUNKS_IN_MEMORY) {
-                console.warn(`⚠️ Memory limit reached: Cannot add ${fileChunks.length} chunks. Current: ${chunks.length}, Limit: ${MAX_CHUNKS_IN_MEMORY}`);
-                file.error = "Memory limit reached during processing";
-                continue;
-              }
-
-              chunks.push(...fileChunks);
-              totalChunks += fileChunks.length;
-              totalCharacters += file.characterCount;
-
-              // Mark file as indexed
-              file.indexed = true;
-              processedFiles++;
-
-              console.log(`✅ Indexed file ${file.name}: ${fileChunks.length} chunks created`);
-
-              // Yield control to prevent blocking
-              await new Promise((resolve) => setTimeout(resolve, 0));
-            } else {
-              console.error(`❌ Invalid chunks returned for file ${file.name}:`, fileChunks);
-              file.error = "Failed to create chunks";
-            }
-          } catch (fileError) {
-            console.error(`❌ Error processing file ${file.name}:`, fileError);
-            file.error = fileError instanceof Error ? fileError.message : "Unknown error occurred";
+          const fileChunks = await indexFile(file);
+          if (fileChunks.length === 0) continue;
+
+          // Check memory limits before adding chunks
+          if (chunks.length + fileChunks.length > MAX_CHUNKS_IN_MEMORY) {
+            console.warn(`⚠️ Memory limit reached: Cannot add ${fileChunks.length} chunks. Current: ${chunks.length}, Limit: ${MAX_CHUNKS_IN_MEMORY}`);
+            file.indexError = "Memory limit reached during processing";
+            continue;
           }
+
+          chunks.push(...fileChunks);
+          totalChunks += fileChunks.length;
+          totalCharacters += file.characterCount;
+
+          // Mark file as indexed
+          file.indexed = true;
+          processedFiles++;
+
+          console.log(`✅ Indexed file ${file.name}: ${fileChunks.length} chunks created`);
+
+          // Yield control to prevent blocking
+          await new Promise((resolve) => setTimeout(resolve, 0));
         }
 
         // Force garbage collection between batches
@@ -151,8 +169,6 @@ export const createRAGFileManager = (): RAGFileManager => {
       return { chunks, totalChunks, totalCharacters };
     } catch (error) {
       console.error(`❌ Critical error during RAG indexing:`, error);
-      // Reset chunks on critical error
-      chunks = [];
       throw error;
     }
   };
@@ -255,6 +271,7 @@ export const createRAGFileManager = (): RAGFileManager => {
     addFiles,
     removeFile,
     getFiles,
+    indexFile,
     indexFiles,
     clear,
   };
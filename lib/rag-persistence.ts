@@ -1,66 +1,284 @@
-import fs from "fs";
-import path from "path";
-import type { Chunk, FileInfo } from "./types";
-
-export interface RAGPersistenceData {
-  chunks: Chunk[];
-  embeddings: number[][];
-  files: FileInfo[];
-  lastUpdated: string;
+import type { Chunk, EmbeddingMap, EmbeddingModelInfo, FileIndexState, FileInfo } from "./types";
+import { createEmptyData, createRAGStorage, type RAGPersistenceData, type RAGStorage, type RowChanges } from "./rag-storage";
+import { deserializeHNSWIndex, type HNSWIndex } from "./hnsw-index";
+import { createBM25Index, type BM25Index, type KeywordDocument } from "./bm25-index";
+import { TOKENIZER_VERSION } from "./tokenizer";
+
+export type { RAGPersistenceData };
+
+// Rows missing from `next` are removed; rows that are new or differ from `previous` are upserted
+const diffRows = <T>(previous: Map<string, T>, next: Map<string, T>, isSame: (a: T, b: T) => boolean = (a, b) => a === b): RowChanges<T> => ({
+  removed: [...previous.keys()].filter((id) => !next.has(id)),
+  upserted: [...next.entries()].filter(([id, value]) => {
+    const current = previous.get(id);
+    return current === undefined || !isSame(current, value);
+  }),
+});
+
+// Files are compared by value because callers update their flags in place
+const fileSnapshot = (file: FileInfo): string => JSON.stringify(file);
+
+// Vector changes up to this size are applied to the vector index at once; larger ones in the background
+const VECTOR_INDEX_SYNC_CHANGES = 200;
+
+// The vector index is saved this long after its last change, in a transaction of its own
+const VECTOR_INDEX_SAVE_DELAY_MS = 5000;
+
+// Vector changes applied in the background (see catchUpVectorIndex): the index they are applied to and the changes
+// still to apply, oldest first
+interface VectorIndexCatchUp {
+  index: HNSWIndex;
+  pending: Array<RowChanges<Float32Array>>;
 }
 
+// Serves the RAG index from memory and writes every change through to the configured storage
+// (see createRAGStorage). Each update writes only the rows that changed, inside a transaction.
 export class RAGPersistenceService {
   private static instance: RAGPersistenceService;
-  private dataPath: string;
+  private storage: RAGStorage;
   private data: RAGPersistenceData;
+  private savedFiles: Map<string, string>;
+  private vectorIndex?: HNSWIndex;
+  private vectorIndexCatchUp?: VectorIndexCatchUp;
+  private vectorIndexSaveTimer?: ReturnType<typeof setTimeout>;
+  private keywordIndex: BM25Index;
 
-  private constructor() {
-    // Store data in a temporary directory that persists across API calls
-    this.dataPath = path.join(process.cwd(), ".rag-data.json");
-    this.data = {
-      chunks: [],
-      embeddings: [],
-      files: [],
-      lastUpdated: new Date().toISOString(),
-    };
+  private constructor(storage: RAGStorage) {
+    this.storage = storage;
+    this.data = createEmptyData();
+    this.savedFiles = new Map();
+    this.keywordIndex = createBM25Index();
     this.loadData();
   }
 
   public static getInstance(): RAGPersistenceService {
+    // Kept on globalThis so every route bundle and dev-server reload serves the same index and database connection
+    const globalPersistence = globalThis as typeof globalThis & { __ragPersistenceService?: RAGPersistenceService };
     if (!RAGPersistenceService.instance) {
-      RAGPersistenceService.instance = new RAGPersistenceService();
+      RAGPersistenceService.instance = globalPersistence.__ragPersistenceService || new RAGPersistenceService(createRAGStorage());
+      globalPersistence.__ragPersistenceService = RAGPersistenceService.instance;
     }
     return RAGPersistenceService.instance;
   }
 
+  // Creates a service over the given storage, e.g. a memory store in tests
+  public static create(storage: RAGStorage): RAGPersistenceService {
+    return new RAGPersistenceService(storage);
+  }
+
   private loadData(): void {
+    // A background update belongs to the state being replaced
+    this.vectorIndexCatchUp = undefined;
     try {
-      if (fs.existsSync(this.dataPath)) {
-        const fileContent = fs.readFileSync(this.dataPath, "utf-8");
-        this.data = JSON.parse(fileContent);
-        console.log(`📁 Loaded RAG persistence data: ${this.data.chunks.length} chunks, ${this.data.embeddings.length} embeddings, ${this.data.files.length} files`);
-      } else {
-        console.log("📁 No existing RAG persistence data found, starting fresh");
-      }
+      this.data = this.storage.load();
+      this.savedFiles = new Map(this.data.files.map((file) => [file.id, fileSnapshot(file)]));
+      this.vectorIndex = this.restoreVectorIndex();
+      this.keywordIndex = this.restoreKeywordIndex();
+      console.log(
+        `📁 Loaded RAG index from ${this.storage.location || this.storage.kind} storage: ${this.data.chunks.length} chunks, ${Object.keys(this.data.embeddings).length} embeddings, ${this.data.files.length} files`
+      );
     } catch (error) {
       console.error("❌ Error loading RAG persistence data:", error);
       // Start with empty data if loading fails
-      this.data = {
-        chunks: [],
-        embeddings: [],
-        files: [],
-        lastUpdated: new Date().toISOString(),
-      };
+      this.data = createEmptyData();
+      this.savedFiles = new Map();
+      this.vectorIndex = undefined;
+      this.vectorIndexCatchUp = undefined;
+      this.keywordIndex = createBM25Index();
+    }
+  }
+
+  // Restores the saved vector index and brings it in line with the loaded vectors, which can differ after a
+  // backup was restored or when the process ended before the index was saved. Without a usable index, search falls
+  // back to brute force until it is rebuilt.
+  private restoreVectorIndex(): HNSWIndex | undefined {
+    const serialized = this.data.vectorIndex;
+    this.data.vectorIndex = undefined;
+    if (!serialized) return undefined;
+
+    try {
+      const index = deserializeHNSWIndex(serialized, this.data.embeddings);
+      const missing = Object.entries(this.data.embeddings).filter(([chunkId]) => !index.has(chunkId));
+      if (missing.length > 0) console.log(`🧭 Adding ${missing.length} vectors missing from the saved vector index`);
+      if (missing.length > VECTOR_INDEX_SYNC_CHANGES) {
+        this.startVectorIndexCatchUp(index, { removed: [], upserted: missing });
+        return undefined;
+      }
+      missing.forEach(([chunkId, vector]) => index.add(chunkId, vector));
+      if (missing.length > 0) this.scheduleVectorIndexSave();
+      return index.size() > 0 ? index : undefined;
+    } catch (error) {
+      console.error("❌ Error loading vector index, it will be rebuilt:", error);
+      return undefined;
+    }
+  }
+
+  // Restores the keyword index from the saved entries and brings it in line with the loaded chunks: entries of
+  // removed chunks are deleted and chunks without one are indexed from their text. Entries made by another tokenizer
+  // version would not match query terms, so they are all replaced. Only the changed entries are saved.
+  private restoreKeywordIndex(): BM25Index {
+    const savedDocuments = this.data.keywordDocuments || [];
+    this.data.keywordDocuments = undefined;
+    const chunkIds = new Set(this.data.chunks.map((chunk) => chunk.id));
+    const index = createBM25Index();
+
+    if (this.data.keywordTokenizer === TOKENIZER_VERSION) {
+      savedDocuments.forEach(([chunkId, document]) => {
+        if (chunkIds.has(chunkId)) index.addDocument(chunkId, document);
+      });
+    }
+    const stale = savedDocuments.map(([chunkId]) => chunkId).filter((chunkId) => !index.has(chunkId));
+    const missing = this.data.chunks.filter((chunk) => !index.has(chunk.id));
+    const upserted = missing.map((chunk): [string, KeywordDocument] => [chunk.id, index.add(chunk.id, chunk.content)]);
+    if (stale.length + missing.length === 0) return index;
+
+    console.log(`🔤 Indexed ${missing.length} chunks for keyword search, dropped ${stale.length} saved entries`);
+    try {
+      this.storage.transaction(() => {
+        this.storage.writeKeywordDocuments({ removed: stale, upserted });
+        this.recordKeywordTokenizer();
+      });
+    } catch (error) {
+      console.error("❌ Error saving keyword index:", error);
+    }
+    return index;
+  }
+
+  // Applies chunk changes to the keyword index and saves the entries of the changed chunks; called inside the chunks
+  // transaction
+  private updateKeywordIndex(changes: RowChanges<Chunk>): void {
+    changes.removed.forEach((chunkId) => this.keywordIndex.remove(chunkId));
+    const upserted = changes.upserted.map(([chunkId, chunk]): [string, KeywordDocument] => [chunkId, this.keywordIndex.add(chunkId, chunk.content)]);
+    this.storage.writeKeywordDocuments({ removed: changes.removed, upserted });
+    this.recordKeywordTokenizer();
+  }
+
+  private recordKeywordTokenizer(): void {
+    if (this.data.keywordTokenizer === TOKENIZER_VERSION) return;
+    this.storage.writeMetadata("keywordTokenizer", String(TOKENIZER_VERSION));
+    this.data.keywordTokenizer = TOKENIZER_VERSION;
+  }
+
+  // Applies embedding changes to the vector index; called inside the embeddings transaction. The index is saved
+  // later (see scheduleVectorIndexSave): it is derived from the vectors, and a saved index that lags behind them is
+  // brought up to date on load.
+  private updateVectorIndex(changes: RowChanges<Float32Array>): void {
+    if (this.vectorIndexCatchUp) {
+      this.vectorIndexCatchUp.pending.push(changes);
+      return;
+    }
+
+    const index = this.vectorIndex;
+    if (!index) return;
+
+    if (changes.removed.length + changes.upserted.length > VECTOR_INDEX_SYNC_CHANGES) {
+      this.vectorIndex = undefined;
+      this.startVectorIndexCatchUp(index, changes);
+      return;
+    }
+
+    changes.removed.forEach((chunkId) => index.remove(chunkId));
+    changes.upserted.forEach(([chunkId, vector]) => index.add(chunkId, vector));
+    // An emptied index (e.g. the embedding model changed) is dropped and later rebuilt at the new size
+    if (index.size() === 0) this.vectorIndex = undefined;
+    this.scheduleVectorIndexSave();
+  }
+
+  // Applies a large batch of vector changes without blocking other requests. Meanwhile search scans the vectors
+  // exactly and later changes queue up behind the batch; the index is served again once all are applied.
+  private startVectorIndexCatchUp(index: HNSWIndex, changes: RowChanges<Float32Array>): void {
+    const catchUp: VectorIndexCatchUp = { index, pending: [changes] };
+    this.vectorIndexCatchUp = catchUp;
+    this.catchUpVectorIndex(catchUp).catch((error) => {
+      console.error("❌ Error updating vector index, it will be rebuilt:", error);
+      if (this.vectorIndexCatchUp === catchUp) this.vectorIndexCatchUp = undefined;
+    });
+  }
+
+  private async catchUpVectorIndex(catchUp: VectorIndexCatchUp): Promise<void> {
+    const startTime = Date.now();
+    // Stops when the index is cleared or reloaded in the meantime
+    const isCurrent = () => this.vectorIndexCatchUp === catchUp;
+    let applied = 0;
+    const yieldEvery100 = async () => {
+      if (++applied % 100 === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+    };
+
+    while (isCurrent() && catchUp.pending.length > 0) {
+      const { removed, upserted } = catchUp.pending.shift()!;
+      for (const chunkId of removed) {
+        if (!isCurrent()) return;
+        catchUp.index.remove(chunkId);
+        await yieldEvery100();
+      }
+      for (const [chunkId, vector] of upserted) {
+        if (!isCurrent()) return;
+        catchUp.index.add(chunkId, vector);
+        await yieldEvery100();
+      }
+    }
+    if (!isCurrent()) return;
+
+    this.vectorIndexCatchUp = undefined;
+    this.vectorIndex = catchUp.index.size() > 0 ? catchUp.index : undefined;
+    this.scheduleVectorIndexSave();
+    console.log(`🧭 Applied ${applied} vector changes to the vector index in ${Date.now() - startTime}ms`);
+  }
+
+  // Saves the vector index once changes have settled, so a run of writes serializes the graph once
+  private scheduleVectorIndexSave(): void {
+    clearTimeout(this.vectorIndexSaveTimer);
+    this.vectorIndexSaveTimer = setTimeout(() => this.saveVectorIndex(), VECTOR_INDEX_SAVE_DELAY_MS);
+    // A pending save does not keep the process alive; the index is brought up to date on the next load
+    this.vectorIndexSaveTimer.unref?.();
+  }
+
+  private saveVectorIndex(): void {
+    clearTimeout(this.vectorIndexSaveTimer);
+    this.vectorIndexSaveTimer = undefined;
+    // Saved once the background update is done
+    if (this.vectorIndexCatchUp) return;
+
+    try {
+      const data = this.vectorIndex?.serialize();
+      this.storage.transaction(() => this.storage.writeVectorIndex(data));
+    } catch (error) {
+      console.error("❌ Error saving vector index:", error);
     }
   }
 
-  private saveData(): void {
+  // Runs `update` in a storage transaction and stamps the update time. A failed top-level write is
+  // rolled back and the in-memory state is reloaded from storage.
+  private write(label: string, update: () => number): void {
+    const isNested = this.storage.inTransaction();
     try {
-      this.data.lastUpdated = new Date().toISOString();
-      fs.writeFileSync(this.dataPath, JSON.stringify(this.data, null, 2));
-      console.log(`💾 Saved RAG persistence data: ${this.data.chunks.length} chunks, ${this.data.embeddings.length} embeddings, ${this.data.files.length} files`);
+      const changes = this.storage.transaction(() => {
+        const count = update();
+        this.data.lastUpdated = new Date().toISOString();
+        this.storage.writeMetadata("lastUpdated", this.data.lastUpdated);
+        return count;
+      });
+      if (!isNested) {
+        console.log(`💾 Saved ${label}: ${changes} rows changed`);
+      }
     } catch (error) {
-      console.error("❌ Error saving RAG persistence data:", error);
+      console.error(`❌ Error saving ${label}:`, error);
+      if (!isNested) this.loadData();
+      throw error;
+    }
+  }
+
+  // Groups several updates into one transaction, e.g. the chunks, vectors and file states of an indexing run
+  public transaction(update: () => void): void {
+    const isNested = this.storage.inTransaction();
+    try {
+      this.storage.transaction(update);
+      if (!isNested) {
+        console.log(`💾 Saved RAG index: ${this.data.chunks.length} chunks, ${Object.keys(this.data.embeddings).length} embeddings, ${this.data.files.length} files`);
+      }
+    } catch (error) {
+      if (!isNested) this.loadData();
+      throw error;
     }
   }
 
@@ -68,7 +286,7 @@ export class RAGPersistenceService {
     return this.data.chunks;
   }
 
-  public getEmbeddings(): number[][] {
+  public getEmbeddings(): EmbeddingMap {
     return this.data.embeddings;
   }
 
@@ -76,47 +294,142 @@ export class RAGPersistenceService {
     return this.data.files;
   }
 
+  public getEmbeddingModel(): EmbeddingModelInfo | undefined {
+    return this.data.embeddingModel;
+  }
+
+  public getFailedChunkIds(): string[] {
+    return this.data.failedChunkIds || [];
+  }
+
+  public getFileIndex(): Record<string, FileIndexState> {
+    return this.data.fileIndex || {};
+  }
+
+  // The index search can use; undefined while there is none or while a background update is applied
+  public getVectorIndex(): HNSWIndex | undefined {
+    return this.vectorIndex;
+  }
+
+  // Whether there is a vector index, even one that is not served yet; only an index without one needs a build
+  public hasVectorIndex(): boolean {
+    return !!this.vectorIndex || !!this.vectorIndexCatchUp;
+  }
+
+  public getKeywordIndex(): BM25Index {
+    return this.keywordIndex;
+  }
+
+  // Replaces the vector index, e.g. after building it over an existing index
+  public setVectorIndex(vectorIndex: HNSWIndex | undefined): void {
+    this.vectorIndexCatchUp = undefined;
+    this.vectorIndex = vectorIndex;
+    this.saveVectorIndex();
+  }
+
+  // Chunks are immutable, so only added, removed or replaced chunk objects are written
   public setChunks(chunks: Chunk[]): void {
+    const changes = diffRows(new Map(this.data.chunks.map((chunk) => [chunk.id, chunk])), new Map(chunks.map((chunk) => [chunk.id, chunk])));
+    this.write("chunks", () => {
+      this.storage.writeChunks(changes);
+      this.updateKeywordIndex(changes);
+      return changes.removed.length + changes.upserted.length;
+    });
     this.data.chunks = chunks;
-    this.saveData();
   }
 
-  public setEmbeddings(embeddings: number[][]): void {
+  public setEmbeddings(embeddings: EmbeddingMap): void {
+    const changes = diffRows(new Map(Object.entries(this.data.embeddings)), new Map(Object.entries(embeddings)));
+    this.write("embeddings", () => {
+      this.storage.writeEmbeddings(changes);
+      this.updateVectorIndex(changes);
+      return changes.removed.length + changes.upserted.length;
+    });
     this.data.embeddings = embeddings;
-    this.saveData();
+  }
+
+  public setEmbeddingModel(embeddingModel: EmbeddingModelInfo | undefined): void {
+    this.write("embedding model", () => {
+      this.storage.writeMetadata("embeddingModel", embeddingModel ? JSON.stringify(embeddingModel) : undefined);
+      return 1;
+    });
+    this.data.embeddingModel = embeddingModel;
+  }
+
+  public setFailedChunkIds(failedChunkIds: string[]): void {
+    const previous = new Set(this.getFailedChunkIds());
+    const next = new Set(failedChunkIds);
+    const changes = {
+      removed: [...previous].filter((id) => !next.has(id)),
+      added: [...next].filter((id) => !previous.has(id)),
+    };
+    this.write("failed chunks", () => {
+      this.storage.writeFailedChunks(changes);
+      return changes.removed.length + changes.added.length;
+    });
+    this.data.failedChunkIds = failedChunkIds;
+  }
+
+  public setFileIndex(fileIndex: Record<string, FileIndexState>): void {
+    const changes = diffRows(
+      new Map(Object.entries(this.getFileIndex())),
+      new Map(Object.entries(fileIndex)),
+      (a, b) => a.contentHash === b.contentHash && a.chunkCount === b.chunkCount && a.indexedAt === b.indexedAt
+    );
+    this.write("file index", () => {
+      this.storage.writeFileIndex(changes);
+      return changes.removed.length + changes.upserted.length;
+    });
+    this.data.fileIndex = fileIndex;
   }
 
   public setFiles(files: FileInfo[]): void {
+    const filesById = new Map(files.map((file) => [file.id, file]));
+    const snapshots = new Map(files.map((file) => [file.id, fileSnapshot(file)]));
+    const { removed, upserted } = diffRows(this.savedFiles, snapshots);
+    this.write("files", () => {
+      this.storage.writeFiles({ removed, upserted: upserted.map(([id]) => [id, filesById.get(id)!]) });
+      return removed.length + upserted.length;
+    });
     this.data.files = files;
-    this.saveData();
+    this.savedFiles = snapshots;
   }
 
+  // A re-added file replaces the previous version
   public addFiles(files: FileInfo[]): void {
-    this.data.files.push(...files);
-    this.saveData();
+    const newIds = new Set(files.map((f) => f.id));
+    this.setFiles([...this.data.files.filter((f) => !newIds.has(f.id)), ...files]);
   }
 
+  // Removes the file with its chunks, vectors and index state in one transaction
   public removeFile(fileId: string): void {
-    this.data.files = this.data.files.filter((f) => f.id !== fileId);
-    this.data.chunks = this.data.chunks.filter((c) => c.fileId !== fileId);
-    // Remove corresponding embeddings
-    const fileChunks = this.data.chunks.filter((c) => c.fileId === fileId);
-    const chunkIds = new Set(fileChunks.map((c) => c.id));
-    this.data.embeddings = this.data.embeddings.filter((_, index) => {
-      const chunk = this.data.chunks[index];
-      return chunk && !chunkIds.has(chunk.id);
+    const chunkIds = new Set(this.data.chunks.filter((c) => c.fileId === fileId).map((c) => c.id));
+    const embeddings = { ...this.data.embeddings };
+    chunkIds.forEach((id) => delete embeddings[id]);
+    const fileIndex = { ...this.getFileIndex() };
+    delete fileIndex[fileId];
+
+    this.transaction(() => {
+      this.setFiles(this.data.files.filter((f) => f.id !== fileId));
+      this.setChunks(this.data.chunks.filter((c) => c.fileId !== fileId));
+      this.setEmbeddings(embeddings);
+      this.setFailedChunkIds(this.getFailedChunkIds().filter((id) => !chunkIds.has(id)));
+      this.setFileIndex(fileIndex);
     });
-    this.saveData();
   }
 
   public clear(): void {
-    this.data = {
-      chunks: [],
-      embeddings: [],
-      files: [],
-      lastUpdated: new Date().toISOString(),
-    };
-    this.saveData();
+    this.write("cleared index", () => {
+      const rows = this.data.files.length + this.data.chunks.length + Object.keys(this.data.embeddings).length;
+      this.storage.clear();
+      return rows;
+    });
+    this.data = createEmptyData();
+    this.savedFiles = new Map();
+    this.vectorIndex = undefined;
+    this.vectorIndexCatchUp = undefined;
+    clearTimeout(this.vectorIndexSaveTimer);
+    this.keywordIndex = createBM25Index();
     console.log("🗑️ RAG persistence data cleared");
   }
 
@@ -130,6 +443,6 @@ export class RAGPersistenceService {
   }
 
   public isAvailable(): boolean {
-    return this.data.chunks.length > 0 && this.data.embeddings.length > 0;
+    return this.data.chunks.length > 0 && Object.keys(this.data.embeddings).length > 0;
   }
 }
@@ -1,23 +1,72 @@
-import type { Chunk, SearchResult } from "./types";
+import type { Chunk, EmbeddingMap, SearchResult } from "./types";
+import { buildContext, CONTEXT_CANDIDATES } from "./context-builder";
+import { computeContextBudget } from "./token-budget";
+import type { HNSWIndex } from "./hnsw-index";
+
+// Below this many vectors an exact scan is fast enough and the vector index is not used
+export const ANN_MIN_VECTORS = 2000;
 
 export interface RAGSearchService {
-  search: (query: string, queryEmbedding: number[], chunks: Chunk[], embeddings: number[][], topK?: number) => Promise<SearchResult[]>;
-  getContext: (query: string, queryEmbedding: number[], chunks: Chunk[], embeddings: number[][], maxLength?: number) => Promise<string>;
+  search: (query: string, queryEmbedding: number[], chunks: Chunk[], embeddings: EmbeddingMap, topK?: number, vectorIndex?: HNSWIndex) => Promise<SearchResult[]>;
+  getContext: (query: string, queryEmbedding: number[], chunks: Chunk[], embeddings: EmbeddingMap, maxTokens?: number, vectorIndex?: HNSWIndex) => Promise<string>;
 }
 
+// Vector norms for the exact scan; stored vectors never change, so each norm is computed once
+const vectorNorms = new WeakMap<Float32Array, number>();
+
+const getNorm = (vector: Float32Array): number => {
+  let norm = vectorNorms.get(vector);
+  if (norm === undefined) {
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+    norm = Math.sqrt(sum);
+    vectorNorms.set(vector, norm);
+  }
+  return norm;
+};
+
 export const createRAGSearchService = (): RAGSearchService => {
-  // Cosine similarity calculation
-  const cosineSimilarity = (a: number[], b: number[]): number => {
-    const dot = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const normA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const normB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-
-    if (normA === 0 || normB === 0) return 0;
-    return dot / (normA * normB);
+  // Cosine similarity calculation; the query norm is computed once per search
+  const cosineSimilarity = (query: number[], queryNorm: number, vector: Float32Array): number => {
+    const norm = getNorm(vector);
+    if (queryNorm === 0 || norm === 0) return 0;
+
+    let dot = 0;
+    for (let i = 0; i < query.length; i++) dot += query[i] * vector[i];
+    return dot / (queryNorm * norm);
+  };
+
+  // Compares the query with every vector
+  const exactSearch = (queryEmbedding: number[], chunks: Chunk[], embeddings: EmbeddingMap, topK: number): Array<{ chunk: Chunk; similarity: number }> => {
+    const queryNorm = Math.sqrt(queryEmbedding.reduce((sum, val) => sum + val * val, 0));
+    return (
+      chunks
+        // Chunks without a vector (failed embeddings) or with a vector of another size cannot be ranked
+        .filter((chunk) => embeddings[chunk.id]?.length === queryEmbedding.length)
+        .map((chunk) => ({ chunk, similarity: cosineSimilarity(queryEmbedding, queryNorm, embeddings[chunk.id]) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, topK)
+    );
+  };
+
+  // Walks the vector index; hits whose chunk is not in `chunks` are skipped
+  const approximateSearch = (queryEmbedding: number[], chunks: Chunk[], vectorIndex: HNSWIndex, topK: number): Array<{ chunk: Chunk; similarity: number }> => {
+    const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+    return vectorIndex.search(queryEmbedding, topK).flatMap((hit) => {
+      const chunk = chunksById.get(hit.id);
+      return chunk ? [{ chunk, similarity: hit.score }] : [];
+    });
   };
 
-  const search = async (query: string, queryEmbedding: number[], chunks: Chunk[], embeddings: number[][], topK: number = 5): Promise<SearchResult[]> => {
-    if (embeddings.length === 0 || chunks.length === 0) {
+  const search = async (
+    query: string,
+    queryEmbedding: number[],
+    chunks: Chunk[],
+    embeddings: EmbeddingMap,
+    topK: number = 5,
+    vectorIndex?: HNSWIndex
+  ): Promise<SearchResult[]> => {
+    if (Object.keys(embeddings).length === 0 || chunks.length === 0) {
       console.log("No embeddings available for semantic search");
       return [];
     }
@@ -28,29 +77,18 @@ export const createRAGSearchService = (): RAGSearchService => {
     }
 
     try {
-      // Calculate similarities using the actual query embedding
-      const similarities = chunks.map((chunk, index) => {
-        if (index >= embeddings.length) {
-          console.warn(`Chunk index ${index} exceeds embeddings length ${embeddings.length}`);
-          return { chunk, similarity: 0, index };
-        }
-
-        const similarity = cosineSimilarity(queryEmbedding, embeddings[index]);
-        return { chunk, similarity, index };
-      });
-
-      // Sort by similarity and return top K
-      const topResults = similarities
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, topK)
-        .map(({ chunk, similarity }) => ({
-          chunk,
-          score: similarity,
-          content: chunk.content,
-        }));
+      // Large indexes are searched through the vector index; small ones (or a query of another size) are scanned
+      const useIndex = !!vectorIndex && vectorIndex.size() >= ANN_MIN_VECTORS && vectorIndex.dimensions === queryEmbedding.length;
+      const matches = useIndex ? approximateSearch(queryEmbedding, chunks, vectorIndex!, topK) : exactSearch(queryEmbedding, chunks, embeddings, topK);
+
+      const topResults = matches.map(({ chunk, similarity }) => ({
+        chunk,
+        score: similarity,
+        content: chunk.content,
+      }));
 
       console.log(
-        `🔍 Semantic search found ${topResults.length} results with scores:`,
+        `🔍 Semantic search (${useIndex ? "vector index" : "exact"}) found ${topResults.length} results with scores:`,
         topResults.map((r) => r.score)
       );
       return topResults;
@@ -60,34 +98,27 @@ export const createRAGSearchService = (): RAGSearchService => {
     }
   };
 
-  const getContext = async (query: string, queryEmbedding: number[], chunks: Chunk[], embeddings: number[][], maxLength: number = 3000): Promise<string> => {
+  const getContext = async (
+    query: string,
+    queryEmbedding: number[],
+    chunks: Chunk[],
+    embeddings: EmbeddingMap,
+    maxTokens: number = computeContextBudget(),
+    vectorIndex?: HNSWIndex
+  ): Promise<string> => {
     if (!query || query.trim().length === 0) {
       console.log("Empty query provided to getContext");
       return "";
     }
 
-    const results = await search(query, queryEmbedding, chunks, embeddings, 6);
+    const results = await search(query, queryEmbedding, chunks, embeddings, CONTEXT_CANDIDATES, vectorIndex);
 
     if (results.length === 0) {
       console.log("No search results found for context");
       return "";
     }
 
-    let context = "";
-    let currentLength = 0;
-
-    for (const result of results) {
-      if (currentLength + result.content.length > maxLength) {
-        break;
-      }
-
-      if (context) context += "\n\n";
-      context += `[From: ${result.chunk.fileName}]\n${result.content}`;
-      currentLength += result.content.length;
-    }
-
-    console.log(`RAG Context retrieved: ${context.length} characters from ${results.length} chunks`);
-    return context;
+    return buildContext(results, maxTokens);
   };
 
   return {
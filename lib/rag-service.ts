@@ -1,5 +1,8 @@
 import { createTextChunker } from "./text-chunker";
 import { createSearchEngine } from "./search-engine";
+import { createBM25Index } from "./bm25-index";
+import { buildContext, CONTEXT_CANDIDATES } from "./context-builder";
+import { computeContextBudget } from "./token-budget";
 import type { FileInfo, Chunk, SearchResult, RAGStats, RAGDebugInfo } from "./types";
 
 export interface RAGService {
@@ -8,7 +11,7 @@ export interface RAGService {
   getFiles: () => FileInfo[];
   indexFiles: () => void;
   search: (query: string, topK?: number) => SearchResult[];
-  getContext: (query: string, maxLength?: number) => string;
+  getContext: (query: string, maxTokens?: number) => string;
   isRAGAvailable: () => boolean;
   getStats: () => RAGStats;
   debugIndex: () => RAGDebugInfo;
@@ -18,6 +21,8 @@ export interface RAGService {
 export const createRAGService = (): RAGService => {
   let chunks: Chunk[] = [];
   let files: FileInfo[] = [];
+  // Kept in step with `chunks`, so searches do not re-index the chunk text
+  let keywordIndex = createBM25Index();
 
   const textChunker = createTextChunker();
   const searchEngine = createSearchEngine();
@@ -31,6 +36,7 @@ export const createRAGService = (): RAGService => {
 
   const removeFile = (fileId: string) => {
     files = files.filter((file) => file.id !== fileId);
+    chunks.filter((chunk) => chunk.fileId === fileId).forEach((chunk) => keywordIndex.remove(chunk.id));
     chunks = chunks.filter((chunk) => chunk.fileId !== fileId);
     console.log(`Removed file ${fileId} from RAG service`);
   };
@@ -45,6 +51,7 @@ export const createRAGService = (): RAGService => {
 
     try {
       chunks = [];
+      keywordIndex = createBM25Index();
 
       let totalChunks = 0;
       let processedFiles = 0;
@@ -79,6 +86,7 @@ export const createRAGService = (): RAGService => {
           // Validate chunks before adding
           if (fileChunks && Array.isArray(fileChunks)) {
             chunks.push(...fileChunks);
+            fileChunks.forEach((chunk) => keywordIndex.add(chunk.id, chunk.content));
             totalChunks += fileChunks.length;
             totalCharacters += file.characterCount;
 
@@ -106,6 +114,7 @@ export const createRAGService = (): RAGService => {
       console.error(`❌ Critical error during RAG indexing:`, error);
       // Reset chunks on critical error
       chunks = [];
+      keywordIndex = createBM25Index();
       throw error; // Re-throw to let caller handle it
     }
   };
@@ -117,41 +126,27 @@ export const createRAGService = (): RAGService => {
     }
 
     try {
-      return searchEngine.search(chunks, query, { topK });
+      return searchEngine.search(chunks, query, { topK, index: keywordIndex });
     } catch (error) {
       console.error("Search failed:", error);
       return [];
     }
   };
 
-  const getContext = (query: string, maxLength: number = 2500): string => {
+  const getContext = (query: string, maxTokens: number = computeContextBudget()): string => {
     if (!query || query.trim().length === 0) {
       console.log("Empty query provided to getContext");
       return "";
     }
 
-    const results = search(query, 6);
+    const results = search(query, CONTEXT_CANDIDATES);
 
     if (results.length === 0) {
       console.log("No search results found for context");
       return "";
     }
 
-    let context = "";
-    let currentLength = 0;
-
-    for (const result of results) {
-      if (currentLength + result.content.length > maxLength) {
-        break;
-      }
-
-      if (context) context += "\n\n";
-      context += `[From: ${result.chunk.fileName}]\n${result.content}`;
-      currentLength += result.content.length;
-    }
-
-    console.log(`RAG Context retrieved: ${context.length} characters from ${results.length} chunks`);
-    return context;
+    return buildContext(results, maxTokens);
   };
 
   const isRAGAvailable = (): boolean => {
@@ -190,6 +185,7 @@ export const createRAGService = (): RAGService => {
   const clear = (): void => {
     chunks = [];
     files = [];
+    keywordIndex = createBM25Index();
     console.log("RAG service cleared");
   };
 
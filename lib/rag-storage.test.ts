@@ -0,0 +1,135 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { RAGPersistenceService } from "./rag-persistence";
+import { createJSONStorage, createMemoryStorage, type RAGStorage } from "./rag-storage";
+import { createSQLiteStorage } from "./sqlite-storage";
+import type { Chunk, FileInfo } from "./types";
+
+const file = (id: string, content: string): FileInfo => ({
+  id,
+  name: `${id}.txt`,
+  size: content.length,
+  content,
+  characterCount: content.length,
+  indexed: true,
+  fileType: "txt",
+});
+
+const chunk = (fileId: string, index: number, content: string): Chunk => ({
+  id: `${fileId}-${index}`,
+  content,
+  fileId,
+  fileName: `${fileId}.txt`,
+  startIndex: 0,
+  endIndex: content.length,
+});
+
+// Each backend returns an opener for one location: the test writes through one storage and reads back through another
+const backends: Array<[string, (dir: string) => () => RAGStorage]> = [
+  [
+    "memory",
+    () => {
+      const storage = createMemoryStorage();
+      return () => storage;
+    },
+  ],
+  ["json", (dir) => () => createJSONStorage(path.join(dir, ".rag-data.json"))],
+  ["sqlite", (dir) => () => createSQLiteStorage(path.join(dir, ".rag-data.db"))],
+];
+
+describe.each(backends)("%s storage", (_kind, createOpener) => {
+  let root: string;
+  let open: () => RAGStorage;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "rag-storage-"));
+  });
+
+  // SQLite backs up each database in the background after its first write; the files are removed once those are done
+  afterAll(async () => {
+    const backingUp = () =>
+      fs.readdirSync(root).filter((dir) => fs.existsSync(path.join(root, dir, ".rag-data.db")) && !fs.existsSync(path.join(root, dir, ".rag-data.db.bak.1")));
+    await vi.waitFor(() => expect(backingUp()).toEqual([]));
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    open = createOpener(fs.mkdtempSync(path.join(root, "test-")));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Two files with two chunks each; the second chunk of "b" failed to embed
+  const saveIndex = (): RAGPersistenceService => {
+    const service = RAGPersistenceService.create(open());
+    service.transaction(() => {
+      service.addFiles([file("a", "alpha beta"), file("b", "gamma delta")]);
+      service.setChunks([chunk("a", 0, "alpha"), chunk("a", 1, "beta"), chunk("b", 0, "gamma"), chunk("b", 1, "delta")]);
+      service.setEmbeddings({ "a-0": Float32Array.from([1, 0]), "a-1": Float32Array.from([0.6, 0.8]), "b-0": Float32Array.from([0, 1]) });
+      service.setEmbeddingModel({ provider: "gemini", model: "test-embedding", dimensions: 2 });
+      service.setFailedChunkIds(["b-1"]);
+      service.setFileIndex({
+        a: { contentHash: "hash-a", chunkCount: 2, indexedAt: "2024-01-01T00:00:00.000Z" },
+        b: { contentHash: "hash-b", chunkCount: 2, indexedAt: "2024-01-01T00:00:00.000Z" },
+      });
+    });
+    return service;
+  };
+
+  it("loads what was saved", () => {
+    saveIndex();
+    const loaded = RAGPersistenceService.create(open());
+
+    expect(loaded.getFiles().map((f) => f.id).sort()).toEqual(["a", "b"]);
+    expect(loaded.getFiles().find((f) => f.id === "a")).toMatchObject({ name: "a.txt", content: "alpha beta", indexed: true });
+    expect(loaded.getChunks().map((c) => c.id).sort()).toEqual(["a-0", "a-1", "b-0", "b-1"]);
+    expect(loaded.getChunks().find((c) => c.id === "b-1")).toMatchObject({ content: "delta", fileId: "b" });
+    expect(Object.keys(loaded.getEmbeddings()).sort()).toEqual(["a-0", "a-1", "b-0"]);
+    expect(Array.from(loaded.getEmbeddings()["a-1"])).toEqual([Math.fround(0.6), Math.fround(0.8)]);
+    expect(loaded.getEmbeddingModel()).toEqual({ provider: "gemini", model: "test-embedding", dimensions: 2 });
+    expect(loaded.getFailedChunkIds()).toEqual(["b-1"]);
+    expect(loaded.getFileIndex().a).toEqual({ contentHash: "hash-a", chunkCount: 2, indexedAt: "2024-01-01T00:00:00.000Z" });
+    expect(loaded.getKeywordIndex().search("gamma", 5).map((hit) => hit.id)).toEqual(["b-0"]);
+  });
+
+  it("removes a file with its chunks, vectors, failure records and index state", () => {
+    saveIndex().removeFile("b");
+    const loaded = RAGPersistenceService.create(open());
+
+    expect(loaded.getFiles().map((f) => f.id)).toEqual(["a"]);
+    expect(loaded.getChunks().map((c) => c.id).sort()).toEqual(["a-0", "a-1"]);
+    expect(Object.keys(loaded.getEmbeddings()).sort()).toEqual(["a-0", "a-1"]);
+    expect(loaded.getFailedChunkIds()).toEqual([]);
+    expect(Object.keys(loaded.getFileIndex())).toEqual(["a"]);
+    expect(loaded.getKeywordIndex().search("gamma", 5)).toEqual([]);
+  });
+
+  it("saves failed-chunk records as they are added and cleared", () => {
+    const service = saveIndex();
+    service.setFailedChunkIds(["b-1", "a-1"]);
+    expect(RAGPersistenceService.create(open()).getFailedChunkIds().sort()).toEqual(["a-1", "b-1"]);
+
+    service.setFailedChunkIds(["a-1"]);
+    expect(RAGPersistenceService.create(open()).getFailedChunkIds()).toEqual(["a-1"]);
+  });
+
+  it("keeps file changes made after indexing", () => {
+    const service = saveIndex();
+    service.setFiles(service.getFiles().map((f) => (f.id === "a" ? { ...f, indexed: false, indexError: "Memory limit reached" } : f)));
+
+    expect(RAGPersistenceService.create(open()).getFiles().find((f) => f.id === "a")).toMatchObject({ indexed: false, indexError: "Memory limit reached" });
+  });
+
+  it("is empty after clear", () => {
+    saveIndex().clear();
+    const storage = open();
+
+    expect(storage.isEmpty()).toBe(true);
+    expect(RAGPersistenceService.create(storage).getStats()).toMatchObject({ totalFiles: 0, totalChunks: 0 });
+  });
+});
@@ -0,0 +1,368 @@
+import fs from "fs";
+import path from "path";
+import type { Chunk, EmbeddingMap, EmbeddingModelInfo, FileIndexState, FileInfo } from "./types";
+import { createSQLiteStorage } from "./sqlite-storage";
+import { readWithRecovery, writeFileAtomic } from "./file-utils";
+import { getVectorFormat, readVectorFile, toVector, writeVectorFile } from "./vector-file";
+import type { KeywordDocument } from "./bm25-index";
+
+export interface RAGPersistenceData {
+  chunks: Chunk[];
+  embeddings: EmbeddingMap;
+  files: FileInfo[];
+  // Model that produced `embeddings`; query vectors must come from the same model
+  embeddingModel?: EmbeddingModelInfo;
+  // Chunks whose embedding failed after retries; they have no entry in `embeddings`
+  failedChunkIds?: string[];
+  // Index state by file ID; files whose content hash is unchanged are not re-chunked
+  fileIndex?: Record<string, FileIndexState>;
+  // Serialized approximate nearest neighbour graph over `embeddings` (see hnsw-index.ts)
+  vectorIndex?: Uint8Array;
+  // BM25 index entries by chunk ID (see bm25-index.ts) and the tokenizer version that produced them
+  keywordDocuments?: Array<[string, KeywordDocument]>;
+  keywordTokenizer?: number;
+  lastUpdated: string;
+}
+
+export type RAGStorageKind = "sqlite" | "json" | "memory";
+
+// Rows to delete and rows to insert or replace, by ID
+export interface RowChanges<T> {
+  removed: string[];
+  upserted: Array<[string, T]>;
+}
+
+// Backend of RAGPersistenceService. Writes only apply the given changes; the service works out what changed.
+export interface RAGStorage {
+  kind: RAGStorageKind;
+  location?: string; // File the index is kept in; undefined for the memory store
+  load: () => RAGPersistenceData;
+  isEmpty: () => boolean;
+  // Runs `update` atomically; nested calls join the outer transaction
+  transaction: <T>(update: () => T) => T;
+  inTransaction: () => boolean;
+  writeFiles: (changes: RowChanges<FileInfo>) => void;
+  writeChunks: (changes: RowChanges<Chunk>) => void;
+  writeEmbeddings: (changes: RowChanges<Float32Array>) => void;
+  writeFailedChunks: (changes: { removed: string[]; added: string[] }) => void;
+  writeFileIndex: (changes: RowChanges<FileIndexState>) => void;
+  writeMetadata: (key: string, value: string | undefined) => void;
+  writeVectorIndex: (data: Uint8Array | undefined) => void;
+  writeKeywordDocuments: (changes: RowChanges<KeywordDocument>) => void;
+  clear: () => void;
+}
+
+export const createEmptyData = (): RAGPersistenceData => ({
+  chunks: [],
+  embeddings: {},
+  files: [],
+  lastUpdated: new Date().toISOString(),
+});
+
+// Builds the loaded index from rows; shared by all backends
+export const toPersistenceData = (rows: {
+  files: FileInfo[];
+  chunks: Chunk[];
+  embeddings: Array<[string, Float32Array]>;
+  failedChunkIds: string[];
+  fileIndex: Array<[string, FileIndexState]>;
+  metadata: Map<string, string>;
+  vectorIndex?: Uint8Array;
+  keywordDocuments: Array<[string, KeywordDocument]>;
+}): RAGPersistenceData => {
+  const embeddingModel = rows.metadata.get("embeddingModel");
+  const keywordTokenizer = rows.metadata.get("keywordTokenizer");
+  return {
+    files: rows.files,
+    chunks: rows.chunks,
+    embeddings: Object.fromEntries(rows.embeddings),
+    embeddingModel: embeddingModel ? JSON.parse(embeddingModel) : undefined,
+    failedChunkIds: rows.failedChunkIds,
+    fileIndex: Object.fromEntries(rows.fileIndex),
+    vectorIndex: rows.vectorIndex,
+    keywordDocuments: rows.keywordDocuments,
+    keywordTokenizer: keywordTokenizer ? Number(keywordTokenizer) : undefined,
+    lastUpdated: rows.metadata.get("lastUpdated") || new Date().toISOString(),
+  };
+};
+
+// Vectors of a JSON index are kept in a binary file next to it: .rag-data.json -> .rag-data.vectors
+export const getVectorFilePath = (jsonPath: string): string => `${jsonPath.replace(/\.json$/, "")}.vectors`;
+
+// ...its vector index in .rag-data.hnsw and its keyword index entries, as JSON, in .rag-data.bm25
+const getVectorIndexPath = (jsonPath: string): string => `${jsonPath.replace(/\.json$/, "")}.hnsw`;
+const getKeywordIndexPath = (jsonPath: string): string => `${jsonPath.replace(/\.json$/, "")}.bm25`;
+
+// Reads a JSON index file. Vectors are only inline in files written by earlier versions: as an array parallel
+// to `chunks` in the oldest ones, then as number arrays keyed by chunk ID. Both are returned keyed by chunk ID.
+export const readJSONIndex = (filePath: string): RAGPersistenceData => {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const inline: number[][] | Record<string, number[]> = parsed.embeddings || {};
+  const data: RAGPersistenceData = { ...createEmptyData(), ...parsed, embeddings: {} };
+
+  if (Array.isArray(inline)) {
+    if (inline.length !== data.chunks.length) {
+      console.warn(`⚠️ Legacy index has ${inline.length} embeddings for ${data.chunks.length} chunks; run an integrity check`);
+    }
+    data.chunks.forEach((chunk, index) => {
+      if (inline[index]?.length > 0) data.embeddings[chunk.id] = toVector(inline[index]);
+    });
+  } else {
+    Object.entries(inline).forEach(([chunkId, vector]) => {
+      data.embeddings[chunkId] = toVector(vector);
+    });
+  }
+  return data;
+};
+
+// Reads a JSON index together with its vector file
+const readJSONIndexWithVectors = (filePath: string): RAGPersistenceData => {
+  const data = readJSONIndex(filePath);
+  if (Object.keys(data.embeddings).length === 0 && fs.existsSync(getVectorFilePath(filePath))) {
+    data.embeddings = Object.fromEntries(readVectorFile(getVectorFilePath(filePath)));
+  }
+  return data;
+};
+
+// Writes a whole index into an empty storage in one transaction
+const importIndex = (storage: RAGStorage, data: RAGPersistenceData): void => {
+  storage.transaction(() => {
+    storage.writeFiles({ removed: [], upserted: data.files.map((file) => [file.id, file]) });
+    storage.writeChunks({ removed: [], upserted: data.chunks.map((chunk) => [chunk.id, chunk]) });
+    storage.writeEmbeddings({ removed: [], upserted: Object.entries(data.embeddings) });
+    storage.writeFailedChunks({ removed: [], added: data.failedChunkIds || [] });
+    storage.writeFileIndex({ removed: [], upserted: Object.entries(data.fileIndex || {}) });
+    storage.writeMetadata("embeddingModel", data.embeddingModel ? JSON.stringify(data.embeddingModel) : undefined);
+    storage.writeMetadata("lastUpdated", data.lastUpdated);
+  });
+};
+
+const ROW_TABLES = ["files", "chunks", "embeddings", "failedChunks", "fileIndex", "metadata", "vectorIndex", "keywordDocuments"] as const;
+type RowTable = (typeof ROW_TABLES)[number];
+
+// Keeps rows in ordered maps; the memory and JSON stores share it. `onCommit` runs after each outermost transaction
+// with the tables it changed.
+const createRowStore = (
+  kind: RAGStorageKind,
+  onCommit: (data: RAGPersistenceData, changed: Set<RowTable>) => void,
+  location?: string
+): RAGStorage & { replace: (data: RAGPersistenceData) => void } => {
+  let files = new Map<string, FileInfo>();
+  let chunks = new Map<string, Chunk>();
+  let embeddings = new Map<string, Float32Array>();
+  let failedChunks = new Set<string>();
+  let fileIndex = new Map<string, FileIndexState>();
+  let metadata = new Map<string, string>();
+  let vectorIndex: Uint8Array | undefined;
+  let keywordDocuments = new Map<string, KeywordDocument>();
+  let depth = 0;
+  let changed = new Set<RowTable>();
+
+  const load = (): RAGPersistenceData =>
+    toPersistenceData({
+      files: [...files.values()].map((file) => ({ ...file })),
+      chunks: [...chunks.values()],
+      embeddings: [...embeddings.entries()],
+      failedChunkIds: [...failedChunks],
+      fileIndex: [...fileIndex.entries()],
+      metadata,
+      vectorIndex,
+      keywordDocuments: [...keywordDocuments.entries()],
+    });
+
+  const replace = (data: RAGPersistenceData): void => {
+    // Copies, so callers updating their objects in place do not change the stored rows
+    files = new Map(data.files.map((file) => [file.id, { ...file }]));
+    chunks = new Map(data.chunks.map((chunk) => [chunk.id, chunk]));
+    embeddings = new Map(Object.entries(data.embeddings));
+    failedChunks = new Set(data.failedChunkIds || []);
+    fileIndex = new Map(Object.entries(data.fileIndex || {}));
+    metadata = new Map([["lastUpdated", data.lastUpdated]]);
+    if (data.embeddingModel) metadata.set("embeddingModel", JSON.stringify(data.embeddingModel));
+    if (data.keywordTokenizer !== undefined) metadata.set("keywordTokenizer", String(data.keywordTokenizer));
+    vectorIndex = data.vectorIndex;
+    keywordDocuments = new Map(data.keywordDocuments || []);
+  };
+
+  const transaction = <T>(update: () => T): T => {
+    if (depth > 0) {
+      depth++;
+      try {
+        return update();
+      } finally {
+        depth--;
+      }
+    }
+
+    // Roll back to these copies if the update fails
+    const snapshot = { files: new Map(files), chunks: new Map(chunks), embeddings: new Map(embeddings), failedChunks: new Set(failedChunks), fileIndex: new Map(fileIndex), metadata: new Map(metadata), vectorIndex, keywordDocuments: new Map(keywordDocuments) };
+    depth = 1;
+    try {
+      const result = update();
+      onCommit(load(), changed);
+      return result;
+    } catch (error) {
+      ({ files, chunks, embeddings, failedChunks, fileIndex, metadata, vectorIndex, keywordDocuments } = snapshot);
+      throw error;
+    } finally {
+      depth = 0;
+      changed = new Set();
+    }
+  };
+
+  const applyRows = <T>(table: RowTable, rows: Map<string, T>, changes: RowChanges<T>, copy: (value: T) => T = (value) => value): void => {
+    transaction(() => {
+      changed.add(table);
+      changes.removed.forEach((id) => rows.delete(id));
+      changes.upserted.forEach(([id, value]) => rows.set(id, copy(value)));
+    });
+  };
+
+  return {
+    kind,
+    location,
+    load,
+    replace,
+    isEmpty: () => files.size === 0 && chunks.size === 0,
+    transaction,
+    inTransaction: () => depth > 0,
+    writeFiles: (changes) => applyRows("files", files, changes, (file) => ({ ...file })),
+    writeChunks: (changes) => applyRows("chunks", chunks, changes),
+    writeEmbeddings: (changes) => applyRows("embeddings", embeddings, changes),
+    writeFailedChunks: (changes) =>
+      transaction(() => {
+        changed.add("failedChunks");
+        changes.removed.forEach((id) => failedChunks.delete(id));
+        changes.added.forEach((id) => failedChunks.add(id));
+      }),
+    writeFileIndex: (changes) => applyRows("fileIndex", fileIndex, changes),
+    writeMetadata: (key, value) =>
+      transaction(() => {
+        changed.add("metadata");
+        if (value === undefined) metadata.delete(key);
+        else metadata.set(key, value);
+      }),
+    writeVectorIndex: (data) =>
+      transaction(() => {
+        changed.add("vectorIndex");
+        vectorIndex = data;
+      }),
+    writeKeywordDocuments: (changes) => applyRows("keywordDocuments", keywordDocuments, changes),
+    clear: () =>
+      transaction(() => {
+        replace(createEmptyData());
+        ROW_TABLES.forEach((table) => changed.add(table));
+      }),
+  };
+};
+
+// Keeps the index in process memory only; used by tests and read-only deployments
+export const createMemoryStorage = (initial?: RAGPersistenceData): RAGStorage => {
+  const storage = createRowStore("memory", () => {});
+  if (initial) storage.replace(initial);
+  return storage;
+};
+
+// Keeps the index in memory and atomically rewrites the JSON file after every committed transaction. Vectors go to
+// a binary vector file, which is only rewritten when they change. A corrupt file is quarantined and the newest
+// readable backup is loaded instead.
+export const createJSONStorage = (filePath: string): RAGStorage => {
+  const vectorPath = getVectorFilePath(filePath);
+  const vectorIndexPath = getVectorIndexPath(filePath);
+  const keywordIndexPath = getKeywordIndexPath(filePath);
+  const format = getVectorFormat();
+  let vectorsPending = false;
+
+  const storage = createRowStore(
+    "json",
+    (data, changed) => {
+      // The vector file is written first: after a crash in between, the integrity check reports the difference
+      if (vectorsPending || changed.has("embeddings")) {
+        writeVectorFile(vectorPath, Object.entries(data.embeddings), format);
+        vectorsPending = false;
+      }
+      // No backups of the search indexes: they are rebuilt from the vectors and chunks when missing
+      if (changed.has("vectorIndex")) {
+        if (data.vectorIndex) writeFileAtomic(vectorIndexPath, data.vectorIndex, 0);
+        else fs.rmSync(vectorIndexPath, { force: true });
+      }
+      if (changed.has("keywordDocuments")) {
+        if (data.keywordDocuments?.length) writeFileAtomic(keywordIndexPath, JSON.stringify(data.keywordDocuments), 0);
+        else fs.rmSync(keywordIndexPath, { force: true });
+      }
+      // Saving only a search index leaves the JSON file as it is
+      if ([...changed].every((table) => table === "vectorIndex" || table === "keywordDocuments")) return;
+      writeFileAtomic(filePath, JSON.stringify({ ...data, embeddings: undefined, vectorIndex: undefined, keywordDocuments: undefined }));
+    },
+    filePath
+  );
+
+  const data = readWithRecovery(filePath, readJSONIndex);
+  if (data) {
+    if (Object.keys(data.embeddings).length > 0) {
+      // Inline vectors from an earlier version move to the vector file on the next write
+      vectorsPending = true;
+    } else {
+      data.embeddings = Object.fromEntries(readWithRecovery(vectorPath, readVectorFile) || []);
+    }
+    if (fs.existsSync(vectorIndexPath)) data.vectorIndex = fs.readFileSync(vectorIndexPath);
+    if (fs.existsSync(keywordIndexPath)) {
+      try {
+        data.keywordDocuments = JSON.parse(fs.readFileSync(keywordIndexPath, "utf-8"));
+      } catch (error) {
+        // E.g. the binary index of an earlier version; the keyword index is rebuilt from the chunks
+        console.warn(`⚠️ Ignoring unreadable ${path.basename(keywordIndexPath)}:`, error);
+      }
+    }
+    storage.replace(data);
+  }
+  return storage;
+};
+
+const DEFAULT_LOCATIONS: Record<Exclude<RAGStorageKind, "memory">, string> = {
+  sqlite: ".rag-data.db",
+  json: ".rag-data.json",
+};
+
+const resolveLocation = (kind: Exclude<RAGStorageKind, "memory">, location?: string): string => path.resolve(location || DEFAULT_LOCATIONS[kind]);
+
+// File the storage selected by RAG_STORAGE keeps its index in, without opening it; undefined for the memory store
+export const getStorageLocation = (kind: string = process.env.RAG_STORAGE || "sqlite", location: string | undefined = process.env.RAG_STORAGE_PATH): string | undefined =>
+  kind === "sqlite" || kind === "json" ? resolveLocation(kind, location) : undefined;
+
+// Storage selected by RAG_STORAGE (sqlite, json or memory; default sqlite) at RAG_STORAGE_PATH
+export const createRAGStorage = (kind: string = process.env.RAG_STORAGE || "sqlite", location: string | undefined = process.env.RAG_STORAGE_PATH): RAGStorage => {
+  switch (kind) {
+    case "memory":
+      return createMemoryStorage();
+
+    case "json":
+      return createJSONStorage(resolveLocation("json", location));
+
+    case "sqlite": {
+      const storage = createSQLiteStorage(resolveLocation("sqlite", location));
+
+      // An index saved by earlier versions as JSON is imported once and renamed so it is not imported again
+      const jsonPath = path.resolve(DEFAULT_LOCATIONS.json);
+      if (fs.existsSync(jsonPath)) {
+        if (!storage.isEmpty()) {
+          console.warn(`⚠️ Ignoring ${path.basename(jsonPath)}: ${path.basename(storage.location!)} already contains an index`);
+        } else {
+          try {
+            const data = readJSONIndexWithVectors(jsonPath);
+            importIndex(storage, data);
+            fs.renameSync(jsonPath, `${jsonPath}.migrated`);
+            if (fs.existsSync(getVectorFilePath(jsonPath))) fs.renameSync(getVectorFilePath(jsonPath), `${getVectorFilePath(jsonPath)}.migrated`);
+            console.log(`🔄 Imported ${path.basename(jsonPath)} into ${path.basename(storage.location!)}: ${data.chunks.length} chunks, ${Object.keys(data.embeddings).length} embeddings`);
+          } catch (error) {
+            console.error(`❌ Error importing ${path.basename(jsonPath)}:`, error);
+          }
+        }
+      }
+      return storage;
+    }
+
+    default:
+      throw new Error(`Unknown RAG_STORAGE "${kind}". Use sqlite, json or memory.`);
+  }
+};
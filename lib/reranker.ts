@@ -0,0 +1,136 @@
+import type { SearchResult } from "./types";
+import { createLLMProvider, type LLMProvider } from "./llm-provider";
+import { toProviderAPIError, withRetry } from "./provider-utils";
+
+// llm: the answering provider rates each passage; cross-encoder: a local model scores (query, passage) pairs
+export type RerankerName = "llm" | "cross-encoder";
+
+export const RERANKER_NAMES: RerankerName[] = ["llm", "cross-encoder"];
+
+export interface Reranker {
+  name: RerankerName;
+  // Relevance of each passage to the query from 0 to 1, in the order of `passages`
+  score: (query: string, passages: string[]) => Promise<number[]>;
+}
+
+// Candidates re-scored per search; the reranked top K is taken from these
+export const RERANK_CANDIDATES = Number(process.env.RERANK_CANDIDATES) || 20;
+
+// Characters of each passage shown to the LLM reranker, so 20 candidates fit in one prompt
+const MAX_PASSAGE_CHARS = 1000;
+
+const CROSS_ENCODER_URL = process.env.RERANKER_URL || "http://localhost:8080";
+
+// A rerank request that takes longer is aborted (and retried), so a stuck server cannot hold up the search
+const CROSS_ENCODER_TIMEOUT_MS = Number(process.env.RERANKER_TIMEOUT_MS) || 10000;
+
+export const isRerankerName = (value: unknown): value is RerankerName => RERANKER_NAMES.includes(value as RerankerName);
+
+// Reranker selected by RAG_RERANKER (llm or cross-encoder); unset or "none" turns reranking off
+export const getRerankerName = (): RerankerName | undefined => {
+  const configured = process.env.RAG_RERANKER?.trim().toLowerCase();
+  if (!configured || configured === "none") return undefined;
+
+  if (!isRerankerName(configured)) {
+    console.warn(`⚠️ Unknown RAG_RERANKER "${configured}", reranking is off`);
+    return undefined;
+  }
+  return configured;
+};
+
+export const buildRerankPrompt = (query: string, passages: string[]): string => {
+  const numbered = passages.map((passage, i) => `[${i + 1}]\n${passage.slice(0, MAX_PASSAGE_CHARS)}`).join("\n\n");
+  return `Rate how relevant each passage below is to answering the query, from 0 (unrelated) to 10 (answers it directly). Judge the content, not the wording; the query and passages may be in different languages. Answer with a JSON array of ${passages.length} numbers in passage order and nothing else, e.g. [7, 0, 3].
+
+# Query
+${query}
+
+# Passages
+${numbered}
+
+# Ratings`;
+};
+
+// Reads the ratings array from the model's answer, tolerating text or code fences around it
+export const parseRerankRatings = (answer: string, count: number): number[] => {
+  const match = answer.match(/\[[^\[\]]*\]/);
+  const ratings: unknown = match ? JSON.parse(match[0]) : undefined;
+  if (!Array.isArray(ratings) || ratings.length !== count || !ratings.every((rating) => typeof rating === "number" && Number.isFinite(rating))) {
+    throw new Error(`Reranker answer does not hold ${count} ratings: ${answer.slice(0, 200)}`);
+  }
+  return ratings.map((rating) => Math.min(Math.max(rating / 10, 0), 1));
+};
+
+// Asks the LLM to rate all passages in one prompt. RERANKER_MODEL picks a (smaller, faster) model than the default.
+export const createLLMReranker = (provider: LLMProvider = createLLMProvider(), model: string | undefined = process.env.RERANKER_MODEL): Reranker => {
+  const score = async (query: string, passages: string[]): Promise<number[]> => {
+    const answer = await provider.generateContent(buildRerankPrompt(query, passages), { model, temperature: 0 });
+    return parseRerankRatings(answer, passages.length);
+  };
+
+  return { name: "llm", score };
+};
+
+// Calls the /rerank endpoint of a text-embeddings-inference server running a cross-encoder
+// (e.g. BAAI/bge-reranker-v2-m3) at RERANKER_URL. It answers with sigmoid scores from 0 to 1.
+export const createCrossEncoderReranker = (baseUrl: string = CROSS_ENCODER_URL): Reranker => {
+  const rerank = async (query: string, passages: string[]): Promise<Array<{ index: number; score: number }>> => {
+    const response = await fetch(`${baseUrl}/rerank`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ query, texts: passages, truncate: true }),
+      signal: AbortSignal.timeout(CROSS_ENCODER_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw toProviderAPIError("Reranker", response);
+    }
+    return response.json();
+  };
+
+  const score = async (query: string, passages: string[]): Promise<number[]> => {
+    // Fewer retries than embedding: the search is waiting, and it falls back to the retrieval order
+    const ranked = await withRetry(() => rerank(query, passages), { maxRetries: 2, baseDelayMs: 500, label: "Cross-encoder rerank" });
+    const scores = new Array<number>(passages.length).fill(0);
+    ranked.forEach(({ index, score }) => {
+      scores[index] = score;
+    });
+    return scores;
+  };
+
+  return { name: "cross-encoder", score };
+};
+
+export const createReranker = (name: RerankerName | undefined = getRerankerName()): Reranker | undefined => {
+  switch (name) {
+    case "llm":
+      return createLLMReranker();
+    case "cross-encoder":
+      return createCrossEncoderReranker();
+    default:
+      return undefined;
+  }
+};
+
+// Re-scores retrieved results and returns the top K by relevance. Each result keeps the score it was retrieved
+// with under `scores.retrieval`; `score` becomes the reranker's relevance. If the reranker fails, the results are
+// returned in retrieval order.
+export const rerankResults = async (reranker: Reranker, query: string, results: SearchResult[], topK: number): Promise<SearchResult[]> => {
+  if (results.length === 0) return results;
+
+  try {
+    const startTime = Date.now();
+    const relevance = await reranker.score(query, results.map((result) => result.content));
+    console.log(`🏅 Reranked ${results.length} results with the ${reranker.name} reranker in ${Date.now() - startTime}ms`);
+
+    return results
+      .map((result, i) => ({ ...result, score: relevance[i], scores: { ...result.scores, retrieval: result.score, rerank: relevance[i] } }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  } catch (error) {
+    console.error(`❌ ${reranker.name} reranking failed, keeping the retrieval order:`, error);
+    return results.slice(0, topK);
+  }
+};
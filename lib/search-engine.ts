@@ -1,9 +1,14 @@
 import type { Chunk, SearchResult } from "./types"
+import { buildBM25Index, type BM25Index } from "./bm25-index"
+import { tokenize } from "./tokenizer"
 
 export interface SearchOptions {
   topK?: number
+  // Index over `chunks`, e.g. the persisted one; without it an index is built for this search only
+  index?: BM25Index
 }
 
+// Ranks chunks by BM25 over an inverted index of their terms (see bm25-index.ts)
 export const createSearchEngine = () => {
   const search = (
     chunks: Chunk[],
@@ -22,66 +27,26 @@ export const createSearchEngine = () => {
       return []
     }
 
-    const queryLower = query.toLowerCase().trim()
-    const queryWords = queryLower.split(/\s+/).filter((word) => word.length > 2)
+    const queryTerms = new Set(tokenize(query))
 
-    if (queryWords.length === 0) {
+    if (queryTerms.size === 0) {
       console.log("No meaningful words in query")
       return []
     }
 
-    console.log(`Searching for query: "${query}" with ${queryWords.length} meaningful words`)
+    console.log(`Searching for query: "${query}" with ${queryTerms.size} meaningful words`)
 
-    const results: SearchResult[] = []
+    const index = options.index || buildBM25Index(chunks)
+    const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]))
 
-    for (const chunk of chunks) {
-      const chunkLower = chunk.content.toLowerCase()
-      let score = 0
+    // Hits whose chunk is not in `chunks` are skipped
+    const results: SearchResult[] = index.search(query, topK).flatMap((hit) => {
+      const chunk = chunksById.get(hit.id)
+      return chunk ? [{ chunk, score: hit.score, content: chunk.content }] : []
+    })
+    console.log(`Found ${results.length} relevant chunks`)
 
-      // Enhanced scoring algorithm
-      for (const word of queryWords) {
-        // Exact word matches get highest score
-        const exactMatches = (chunkLower.match(new RegExp(`\\b${word}\\b`, "g")) || []).length
-        score += exactMatches * 3
-
-        // Partial matches
-        if (chunkLower.includes(word)) {
-          score += 1
-        }
-
-        // Stemmed matches (simple stemming)
-        const stemmedWord = word.replace(/ing$|ed$|s$/, "")
-        if (stemmedWord.length > 2) {
-          const stemmedMatches = (chunkLower.match(new RegExp(`\\b${stemmedWord}`, "g")) || []).length
-          score += stemmedMatches * 1.5
-        }
-      }
-
-      // Bonus for chunks that contain multiple query words
-      const uniqueMatches = queryWords.filter((word) => 
-        chunkLower.includes(word) || chunkLower.includes(word.replace(/ing$|ed$|s$/, ""))
-      ).length
-      score += uniqueMatches * 0.5
-
-      // Bonus for longer chunks with more content
-      if (chunk.content.length > 200) {
-        score += 0.2
-      }
-
-      if (score > 0) {
-        results.push({
-          chunk,
-          score,
-          content: chunk.content,
-        })
-      }
-    }
-
-    // Sort by score and return top K results
-    const sortedResults = results.sort((a, b) => b.score - a.score).slice(0, topK)
-    console.log(`Found ${results.length} relevant chunks, returning top ${sortedResults.length}`)
-
-    return sortedResults
+    return results
   }
 
   return { search }
@@ -0,0 +1,318 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { Chunk, FileIndexState, FileInfo } from "./types";
+import { toPersistenceData, type RAGStorage, type RowChanges } from "./rag-storage";
+import { getBackupPaths, quarantineFile, shiftBackups } from "./file-utils";
+import { decodeVector, encodeVector, getVectorFormat } from "./vector-file";
+import type { KeywordDocument } from "./bm25-index";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS files (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    character_count INTEGER NOT NULL,
+    indexed INTEGER NOT NULL,
+    file_type TEXT NOT NULL,
+    page_count INTEGER,
+    error TEXT,
+    index_error TEXT
+  );
+  CREATE TABLE IF NOT EXISTS chunks (
+    id TEXT PRIMARY KEY,
+    file_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    start_index INTEGER NOT NULL,
+    end_index INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chunks_file_id ON chunks (file_id);
+  CREATE TABLE IF NOT EXISTS embeddings (
+    chunk_id TEXT PRIMARY KEY,
+    dimensions INTEGER NOT NULL,
+    vector BLOB NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS failed_chunks (
+    chunk_id TEXT PRIMARY KEY
+  );
+  CREATE TABLE IF NOT EXISTS file_index (
+    file_id TEXT PRIMARY KEY,
+    content_hash TEXT NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    indexed_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS vector_index (
+    key TEXT PRIMARY KEY,
+    data BLOB NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS keyword_documents (
+    chunk_id TEXT PRIMARY KEY,
+    length INTEGER NOT NULL,
+    terms TEXT NOT NULL
+  );
+`;
+
+interface FileRow {
+  id: string;
+  name: string;
+  size: number;
+  content: string;
+  character_count: number;
+  indexed: number;
+  file_type: FileInfo["fileType"];
+  page_count: number | null;
+  error: string | null;
+  index_error: string | null;
+}
+
+interface ChunkRow {
+  id: string;
+  file_id: string;
+  file_name: string;
+  content: string;
+  start_index: number;
+  end_index: number;
+}
+
+interface KeywordDocumentRow {
+  chunk_id: string;
+  length: number;
+  terms: string;
+}
+
+interface FileIndexRow {
+  file_id: string;
+  content_hash: string;
+  chunk_count: number;
+  indexed_at: string;
+}
+
+// Minimum time between backups of the database; a backup is taken after the first commit of each interval
+const BACKUP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Opens the database and fails if it does not pass SQLite's consistency check
+const openDatabase = (dbPath: string): Database.Database => {
+  const db = new Database(dbPath);
+  try {
+    db.pragma("journal_mode = WAL");
+    const check = db.pragma("quick_check", { simple: true });
+    if (check !== "ok") throw new Error(`Integrity check failed: ${check}`);
+    db.exec(SCHEMA);
+    // Databases created before indexing errors were kept apart from upload errors lack the column
+    const fileColumns = db.pragma("table_info(files)") as Array<{ name: string }>;
+    if (!fileColumns.some((column) => column.name === "index_error")) db.exec("ALTER TABLE files ADD COLUMN index_error TEXT");
+    // Earlier versions saved the whole keyword index as one blob; it is rebuilt into keyword_documents on load
+    db.exec("DROP TABLE IF EXISTS keyword_index");
+    return db;
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+};
+
+// The write-ahead log belongs to the database it was written for and must not be applied to a restored backup
+const removeJournal = (dbPath: string): void => {
+  ["-wal", "-shm"].forEach((suffix) => fs.rmSync(`${dbPath}${suffix}`, { force: true }));
+};
+
+// Opens the database. A corrupt database is quarantined and the newest backup that passes the check is restored;
+// without one, an empty database is created.
+const openWithRecovery = (dbPath: string): Database.Database => {
+  try {
+    return openDatabase(dbPath);
+  } catch (error) {
+    if (!fs.existsSync(dbPath)) throw error;
+    const corruptPath = quarantineFile(dbPath);
+    ["-wal", "-shm"].forEach((suffix) => {
+      if (fs.existsSync(`${dbPath}${suffix}`)) fs.renameSync(`${dbPath}${suffix}`, `${corruptPath}${suffix}`);
+    });
+    console.error(`❌ Could not open ${path.basename(dbPath)}, moved it to ${path.basename(corruptPath)}:`, error);
+  }
+
+  for (const backupPath of getBackupPaths(dbPath)) {
+    if (!fs.existsSync(backupPath)) continue;
+    try {
+      fs.copyFileSync(backupPath, dbPath);
+      const db = openDatabase(dbPath);
+      console.warn(`♻️ Restored ${path.basename(dbPath)} from ${path.basename(backupPath)}`);
+      return db;
+    } catch (error) {
+      console.error(`❌ Backup ${path.basename(backupPath)} is not readable either:`, error);
+      fs.rmSync(dbPath, { force: true });
+      removeJournal(dbPath);
+    }
+  }
+
+  console.error(`❌ No readable backup of ${path.basename(dbPath)} found, starting empty`);
+  return openDatabase(dbPath);
+};
+
+// Keeps the index in a SQLite database with one table per kind of row
+export const createSQLiteStorage = (dbPath: string): RAGStorage => {
+  const db = openWithRecovery(dbPath);
+  // Vectors are stored as float32 or int8 BLOBs (see encodeVector); rows of both formats can be mixed
+  const vectorFormat = getVectorFormat();
+  let lastBackupAt = 0;
+  let backupRunning = false;
+
+  // Copies the database into <db>.bak.1 with SQLite's online backup, which is consistent while writes continue.
+  // The copy is written to a temporary file first so an interrupted backup never replaces a good one.
+  const backup = async (): Promise<void> => {
+    if (backupRunning || Date.now() - lastBackupAt < BACKUP_INTERVAL_MS) return;
+    backupRunning = true;
+    lastBackupAt = Date.now();
+    const tempPath = `${dbPath}.bak.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await db.backup(tempPath);
+      shiftBackups(dbPath);
+      fs.renameSync(tempPath, getBackupPaths(dbPath)[0]);
+    } catch (error) {
+      console.error(`❌ Error backing up ${path.basename(dbPath)}:`, error);
+      fs.rmSync(tempPath, { force: true });
+    } finally {
+      backupRunning = false;
+    }
+  };
+
+  const statements = {
+    deleteFile: db.prepare("DELETE FROM files WHERE id = ?"),
+    upsertFile: db.prepare(
+      `INSERT INTO files (id, name, size, content, character_count, indexed, file_type, page_count, error, index_error) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name, size = excluded.size, content = excluded.content, character_count = excluded.character_count,
+         indexed = excluded.indexed, file_type = excluded.file_type, page_count = excluded.page_count, error = excluded.error, index_error = excluded.index_error`
+    ),
+    deleteChunk: db.prepare("DELETE FROM chunks WHERE id = ?"),
+    upsertChunk: db.prepare(
+      `INSERT INTO chunks (id, file_id, file_name, content, start_index, end_index) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET file_id = excluded.file_id, file_name = excluded.file_name, content = excluded.content,
+         start_index = excluded.start_index, end_index = excluded.end_index`
+    ),
+    deleteEmbedding: db.prepare("DELETE FROM embeddings WHERE chunk_id = ?"),
+    upsertEmbedding: db.prepare(
+      "INSERT INTO embeddings (chunk_id, dimensions, vector) VALUES (?, ?, ?) ON CONFLICT(chunk_id) DO UPDATE SET dimensions = excluded.dimensions, vector = excluded.vector"
+    ),
+    deleteFailedChunk: db.prepare("DELETE FROM failed_chunks WHERE chunk_id = ?"),
+    insertFailedChunk: db.prepare("INSERT OR IGNORE INTO failed_chunks (chunk_id) VALUES (?)"),
+    deleteFileIndex: db.prepare("DELETE FROM file_index WHERE file_id = ?"),
+    upsertFileIndex: db.prepare(
+      `INSERT INTO file_index (file_id, content_hash, chunk_count, indexed_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(file_id) DO UPDATE SET content_hash = excluded.content_hash, chunk_count = excluded.chunk_count, indexed_at = excluded.indexed_at`
+    ),
+    deleteMetadata: db.prepare("DELETE FROM metadata WHERE key = ?"),
+    upsertMetadata: db.prepare("INSERT INTO metadata (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value"),
+    deleteVectorIndex: db.prepare("DELETE FROM vector_index WHERE key = 'hnsw'"),
+    upsertVectorIndex: db.prepare("INSERT INTO vector_index (key, data) VALUES ('hnsw', ?) ON CONFLICT(key) DO UPDATE SET data = excluded.data"),
+    deleteKeywordDocument: db.prepare("DELETE FROM keyword_documents WHERE chunk_id = ?"),
+    upsertKeywordDocument: db.prepare(
+      "INSERT INTO keyword_documents (chunk_id, length, terms) VALUES (?, ?, ?) ON CONFLICT(chunk_id) DO UPDATE SET length = excluded.length, terms = excluded.terms"
+    ),
+  };
+
+  // better-sqlite3 turns nested transactions into savepoints
+  const transaction = <T>(update: () => T): T => {
+    const result = db.transaction(update)();
+    if (!db.inTransaction) void backup();
+    return result;
+  };
+
+  const applyRows = <T>(changes: RowChanges<T>, remove: Database.Statement, upsert: (id: string, value: T) => void): void => {
+    transaction(() => {
+      changes.removed.forEach((id) => remove.run(id));
+      changes.upserted.forEach(([id, value]) => upsert(id, value));
+    });
+  };
+
+  const load = () => {
+    const files = (db.prepare("SELECT * FROM files ORDER BY rowid").all() as FileRow[]).map(
+      (row): FileInfo => ({
+        id: row.id,
+        name: row.name,
+        size: row.size,
+        content: row.content,
+        characterCount: row.character_count,
+        indexed: row.indexed === 1,
+        fileType: row.file_type,
+        ...(row.page_count !== null && { pageCount: row.page_count }),
+        ...(row.error !== null && { error: row.error }),
+        ...(row.index_error !== null && { indexError: row.index_error }),
+      })
+    );
+    const chunks = (db.prepare("SELECT * FROM chunks ORDER BY rowid").all() as ChunkRow[]).map(
+      (row): Chunk => ({
+        id: row.id,
+        content: row.content,
+        fileId: row.file_id,
+        fileName: row.file_name,
+        startIndex: row.start_index,
+        endIndex: row.end_index,
+      })
+    );
+    // All vectors are decoded into one contiguous array instead of one allocation per row
+    const embeddingRows = db.prepare("SELECT chunk_id, dimensions, vector FROM embeddings").all() as Array<{ chunk_id: string; dimensions: number; vector: Buffer }>;
+    const values = new Float32Array(embeddingRows.reduce((sum, row) => sum + row.dimensions, 0));
+    let offset = 0;
+    const embeddings = embeddingRows.map((row): [string, Float32Array] => {
+      const vector = decodeVector(row.vector, row.dimensions, values.subarray(offset, offset + row.dimensions));
+      offset += row.dimensions;
+      return [row.chunk_id, vector];
+    });
+    const fileIndex = (db.prepare("SELECT * FROM file_index").all() as FileIndexRow[]).map(
+      (row): [string, FileIndexState] => [row.file_id, { contentHash: row.content_hash, chunkCount: row.chunk_count, indexedAt: row.indexed_at }]
+    );
+    const failedChunkIds = (db.prepare("SELECT chunk_id FROM failed_chunks").all() as Array<{ chunk_id: string }>).map((row) => row.chunk_id);
+    const metadata = new Map((db.prepare("SELECT key, value FROM metadata").all() as Array<{ key: string; value: string }>).map((row) => [row.key, row.value]));
+
+    const vectorIndex = db.prepare("SELECT data FROM vector_index WHERE key = 'hnsw'").get() as { data: Buffer } | undefined;
+    const keywordDocuments = (db.prepare("SELECT * FROM keyword_documents").all() as KeywordDocumentRow[]).map(
+      (row): [string, KeywordDocument] => [row.chunk_id, { length: row.length, terms: JSON.parse(row.terms) }]
+    );
+
+    return toPersistenceData({ files, chunks, embeddings, failedChunkIds, fileIndex, metadata, vectorIndex: vectorIndex?.data, keywordDocuments });
+  };
+
+  return {
+    kind: "sqlite",
+    location: dbPath,
+    load,
+    isEmpty: () => {
+      const { count } = db.prepare("SELECT (SELECT COUNT(*) FROM files) + (SELECT COUNT(*) FROM chunks) AS count").get() as { count: number };
+      return count === 0;
+    },
+    transaction,
+    inTransaction: () => db.inTransaction,
+    writeFiles: (changes) =>
+      applyRows(changes, statements.deleteFile, (id, file) =>
+        statements.upsertFile.run(id, file.name, file.size, file.content, file.characterCount, file.indexed ? 1 : 0, file.fileType, file.pageCount ?? null, file.error ?? null, file.indexError ?? null)
+      ),
+    writeChunks: (changes) =>
+      applyRows(changes, statements.deleteChunk, (id, chunk) => statements.upsertChunk.run(id, chunk.fileId, chunk.fileName, chunk.content, chunk.startIndex, chunk.endIndex)),
+    writeEmbeddings: (changes) => applyRows(changes, statements.deleteEmbedding, (id, vector) => statements.upsertEmbedding.run(id, vector.length, encodeVector(vector, vectorFormat))),
+    writeFailedChunks: (changes) =>
+      transaction(() => {
+        changes.removed.forEach((id) => statements.deleteFailedChunk.run(id));
+        changes.added.forEach((id) => statements.insertFailedChunk.run(id));
+      }),
+    writeFileIndex: (changes) =>
+      applyRows(changes, statements.deleteFileIndex, (id, state) => statements.upsertFileIndex.run(id, state.contentHash, state.chunkCount, state.indexedAt)),
+    writeMetadata: (key, value) => {
+      if (value === undefined) statements.deleteMetadata.run(key);
+      else statements.upsertMetadata.run(key, value);
+    },
+    writeVectorIndex: (data) => {
+      if (data) statements.upsertVectorIndex.run(data);
+      else statements.deleteVectorIndex.run();
+    },
+    writeKeywordDocuments: (changes) =>
+      applyRows(changes, statements.deleteKeywordDocument, (id, document) => statements.upsertKeywordDocument.run(id, document.length, JSON.stringify(document.terms))),
+    clear: () =>
+      transaction(() => {
+        ["files", "chunks", "embeddings", "failed_chunks", "file_index", "metadata", "vector_index", "keyword_documents"].forEach((table) => db.prepare(`DELETE FROM ${table}`).run());
+      }),
+  };
+};
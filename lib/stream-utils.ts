@@ -0,0 +1,98 @@
+import { readLines } from "./provider-utils";
+
+// Event sent over the `text/event-stream` responses of the chat endpoints
+export interface StreamEvent {
+  text?: string;
+  done?: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+// Wraps a token stream into a server-sent events response. `meta` is attached to the final "done" event.
+export const createSSEResponse = (tokens: AsyncGenerator<string>, meta: Record<string, unknown> = {}): Response => {
+  const encoder = new TextEncoder();
+  // Set when the client disconnects; the controller must not be used after that
+  let closed = false;
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: StreamEvent) => {
+    if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startTime = Date.now();
+      try {
+        for await (const text of tokens) {
+          if (closed) break;
+          send(controller, { text });
+        }
+        send(controller, { done: true, generationTime: Date.now() - startTime, ...meta });
+      } catch (error) {
+        if (closed) return;
+        console.error("❌ Streaming generation failed:", error);
+        send(controller, { error: error instanceof Error ? error.message : "Unknown error" });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    async cancel() {
+      closed = true;
+      await tokens.return(undefined);
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+};
+
+// Streams events pushed by `subscribe` as server-sent events. `subscribe` returns its cleanup, which runs
+// when it calls `close` or the client disconnects.
+export const createSSEEventResponse = (
+  subscribe: (send: (event: StreamEvent) => void, close: () => void) => () => void
+): Response => {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: StreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup?.();
+        controller.close();
+      };
+
+      cleanup = subscribe(send, close);
+      // `close` may already have been called while subscribing
+      if (closed) cleanup();
+    },
+    cancel() {
+      closed = true;
+      cleanup?.();
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+};
+
+// Parses a server-sent events body produced by createSSEResponse or createSSEEventResponse
+export async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith("data:")) continue;
+    const event: StreamEvent = JSON.parse(line.slice("data:".length).trim());
+    if (event.error) throw new Error(event.error);
+    yield event;
+    if (event.done) break;
+  }
+}
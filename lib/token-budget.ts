@@ -0,0 +1,80 @@
+// Token estimation and context-window budgeting.
+// Counts are estimates: ~4 characters per token for Latin text, ~1 token per CJK character.
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+export const DEFAULT_ANSWER_TOKENS = 1024; // Reserved for the model's answer
+export const DEFAULT_MAX_CONTEXT_TOKENS = 6000; // Retrieved context never exceeds this, even for 1M-token models
+export const PROMPT_OVERHEAD_TOKENS = 200; // Template instructions around the context
+
+// Known context windows by model name prefix (most specific first)
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ["gemini-1.5-pro", 2097152],
+  ["gemini-1.5", 1048576],
+  ["gemini-2", 1048576],
+  ["gemini", 32768],
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4", 8192],
+  ["gpt-3.5", 16385],
+  ["phi3:medium-128k", 131072],
+  ["phi3", 4096],
+  ["llama3.1", 131072],
+  ["llama3.2", 131072],
+  ["llama3", 8192],
+  ["mistral", 32768],
+  ["qwen2", 32768],
+  ["gemma2", 8192],
+];
+
+export interface ContextBudgetOptions {
+  model?: string;
+  historyTokens?: number;
+  answerTokens?: number;
+  maxContextTokens?: number;
+}
+
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_PATTERN) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+};
+
+export const getModelContextWindow = (model?: string): number => {
+  if (!model) return DEFAULT_CONTEXT_WINDOW;
+  const name = model.toLowerCase().replace(/^models\//, "");
+  const match = MODEL_CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+};
+
+// Tokens left for retrieved context after reserving the answer, the history and the prompt template
+export const computeContextBudget = (options: ContextBudgetOptions = {}): number => {
+  const { model, historyTokens = 0, answerTokens = DEFAULT_ANSWER_TOKENS, maxContextTokens = DEFAULT_MAX_CONTEXT_TOKENS } = options;
+  const available = getModelContextWindow(model) - answerTokens - historyTokens - PROMPT_OVERHEAD_TOKENS;
+  return Math.max(0, Math.min(maxContextTokens, available));
+};
+
+// Cuts text to at most maxTokens, preferring a sentence or word boundary
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (maxTokens <= 0) return "";
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  // Binary search the longest prefix that fits, keeping one token for the "…" appended to it
+  const prefixTokens = maxTokens - 1;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= prefixTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const prefix = text.slice(0, low);
+  const boundary = Math.max(prefix.lastIndexOf("。"), prefix.lastIndexOf(". "), prefix.lastIndexOf("\n"));
+  const cut = boundary > prefix.length * 0.6 ? prefix.slice(0, boundary + 1) : prefix.replace(/\s+\S*$/, "");
+  return `${(cut || prefix).trimEnd()}…`;
+};
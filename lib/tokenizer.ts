@@ -0,0 +1,63 @@
+// Splits text into the terms used by keyword search, for indexing and querying alike. Text is NFKC-normalized
+// (full-width letters and digits become ASCII, half-width katakana becomes full-width) and lowercased. Words in
+// alphabetic scripts are split on anything that is not a letter or digit. Chinese, Japanese and Korean are written
+// without spaces, so each run of one script is cut into overlapping two-character terms (東京都 -> 東京, 京都);
+// a query for any word of two or more characters then matches every chunk containing it, without a dictionary.
+
+// Stored with keyword indexes; an index built by another version is rebuilt, since its terms would not match
+export const TOKENIZER_VERSION = 3;
+
+const ENGLISH_STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "could", "did", "do", "does", "for", "from",
+  "had", "has", "have", "how", "if", "in", "into", "is", "it", "its", "of", "on", "or", "should", "so", "than",
+  "that", "the", "their", "then", "there", "these", "they", "this", "those", "to", "was", "we", "were", "what",
+  "when", "where", "which", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+// Particles, auxiliaries and demonstratives; two-character entries also remove those bigrams from longer runs
+const JAPANESE_STOP_WORDS = new Set([
+  "これ", "それ", "あれ", "どれ", "この", "その", "あの", "どの", "ここ", "そこ", "です", "ます", "でした", "ました",
+  "ません", "する", "した", "して", "します", "いる", "ある", "なる", "こと", "もの", "ため", "よう", "など", "から",
+  "まで", "より", "ので", "のは", "には", "では", "とは", "ては", "すか", "について", "として", "による", "何",
+]);
+
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+
+// One match per run of a single script: Han, katakana (with the long vowel mark), hiragana, Hangul, or any other letters and digits
+const SEGMENTS = new RegExp(
+  `(\\p{Script=Han}+)|([\\p{Script=Katakana}ー]+)|(\\p{Script=Hiragana}+)|(\\p{Script=Hangul}+)|((?:(?![${CJK}])[\\p{L}\\p{N}])+)`,
+  "gu"
+);
+
+const bigrams = (run: string): string[] => {
+  const characters = Array.from(run);
+  if (characters.length === 1) return characters;
+  return characters.slice(1).map((character, i) => characters[i] + character);
+};
+
+// Light English stemming of -ing, -ed and -s (but not -ss), kept only when at least three characters remain. A
+// consonant doubled before -ing or -ed is undoubled (running -> run, stopped -> stop), except l, s and z (falling -> fall).
+const stem = (word: string): string => {
+  if (!/^[a-z]+$/.test(word)) return word;
+  const stemmed = word.replace(/ing$|ed$|([^s])s$/, "$1");
+  if (stemmed.length <= 2) return word;
+  return stemmed.length > 3 && stemmed.length < word.length - 1 && /([b-df-hj-km-np-rtv-y])\1$/.test(stemmed) ? stemmed.slice(0, -1) : stemmed;
+};
+
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [, han, katakana, hiragana, hangul, word] of text.normalize("NFKC").toLowerCase().matchAll(SEGMENTS)) {
+    if (word) {
+      if (word.length > 1 && !ENGLISH_STOP_WORDS.has(word)) tokens.push(stem(word));
+    } else if (hiragana) {
+      // Single kana are mostly particles (は, が, を); hiragana runs are also where most stop words are
+      if (hiragana.length > 1 && !JAPANESE_STOP_WORDS.has(hiragana)) {
+        tokens.push(...bigrams(hiragana).filter((term) => !JAPANESE_STOP_WORDS.has(term)));
+      }
+    } else {
+      const run = han || katakana || hangul;
+      if (!JAPANESE_STOP_WORDS.has(run)) tokens.push(...bigrams(run));
+    }
+  }
+  return tokens;
+};
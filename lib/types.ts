@@ -7,7 +7,8 @@ export interface FileInfo {
   indexed: boolean
   fileType: "txt" | "pdf"
   pageCount?: number
-  error?: string
+  error?: string // Upload or parse failure; the file is not indexed
+  indexError?: string // Why the last indexing run skipped the file; it is retried on the next run
 }
 
 export interface Chunk {
@@ -19,10 +20,45 @@ export interface Chunk {
   endIndex: number
 }
 
+// Recorded per file when it is indexed, so unchanged files can be skipped
+export interface FileIndexState {
+  contentHash: string
+  chunkCount: number
+  indexedAt: string
+}
+
+// Vectors keyed by chunk ID; chunks whose embedding failed have no entry. Float32Array halves the memory of number[]
+export type EmbeddingMap = Record<string, Float32Array>
+
 export interface SearchResult {
   chunk: Chunk
   score: number
   content: string
+  // Scores from the individual retrievers; `score` is their fused score in hybrid mode,
+  // or the reranker's relevance (0 to 1) when the results were reranked
+  scores?: {
+    keyword?: number
+    semantic?: number
+    retrieval?: number // Score the result was retrieved with, before reranking
+    rerank?: number
+  }
+}
+
+// A search result as returned by POST /api/rag, without the chunk's IDs and positions
+export interface RAGSearchResultResponse {
+  fileName: string
+  content: string
+  score: number
+  scores?: SearchResult["scores"]
+}
+
+// keyword: term matching only; semantic: embedding similarity; hybrid: both, fused into one ranking
+export type RetrievalMode = "keyword" | "semantic" | "hybrid"
+
+export interface EmbeddingModelInfo {
+  provider: string
+  model: string
+  dimensions: number
 }
 
 export interface RAGStats {
@@ -30,6 +66,8 @@ export interface RAGStats {
   indexedFiles: number
   totalChunks: number
   totalCharacters: number
+  embeddingModel?: EmbeddingModelInfo
+  failedChunks?: number // Chunks whose embedding failed and can be re-embedded
 }
 
 export interface RAGDebugInfo {
@@ -38,6 +76,7 @@ export interface RAGDebugInfo {
     fileName: string
     contentLength: number
     contentPreview: string
+    embeddingFailed?: boolean
   }>
   files: Array<{
     id: string
@@ -47,3 +86,16 @@ export interface RAGDebugInfo {
     contentLength: number
   }>
 }
+
+export interface IndexIntegrityReport {
+  healthy: boolean // No orphaned, missing or mismatched vectors and no stale failure records
+  checkedAt: string
+  totalChunks: number
+  totalEmbeddings: number
+  expectedDimensions?: number
+  orphanedEmbeddings: string[] // Vectors whose chunk no longer exists
+  missingEmbeddings: string[] // Chunks without a vector that are not recorded as failed
+  failedChunks: string[] // Chunks recorded as failed, waiting for a re-embed
+  dimensionMismatches: Array<{ chunkId: string; dimensions: number }>
+  staleFailedChunkIds: string[] // Failure records for chunks that are gone or have a vector again
+}
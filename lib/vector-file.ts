@@ -0,0 +1,252 @@
+import fs from "fs";
+import { BACKUP_COUNT, writeFileAtomic } from "./file-utils";
+
+// float32 keeps vectors exactly as embedded; int8 stores each value in one byte with a per-vector scale (4x smaller on disk)
+export type VectorFormat = "float32" | "int8";
+
+// Vector format for files written from now on, from RAG_VECTOR_FORMAT; existing files are read in whatever format they have
+export const getVectorFormat = (): VectorFormat => {
+  const format = process.env.RAG_VECTOR_FORMAT || "float32";
+  if (format !== "float32" && format !== "int8") {
+    throw new Error(`Unknown RAG_VECTOR_FORMAT "${format}". Use float32 or int8.`);
+  }
+  return format;
+};
+
+// Vectors are held in memory as float32 whatever their file format. Each set of vectors kept at once (the index
+// and the embedding cache) may take this much: 40,000 vectors of 768 dimensions, or about 21,800 of 3072.
+export const MAX_VECTOR_BYTES_IN_MEMORY = 256 * 1024 * 1024;
+export const MAX_VECTORS_IN_MEMORY = 40000;
+
+// How many vectors of `dimensions` values fit in MAX_VECTOR_BYTES_IN_MEMORY, at most MAX_VECTORS_IN_MEMORY
+export const getVectorLimit = (dimensions: number): number =>
+  Math.min(MAX_VECTORS_IN_MEMORY, Math.floor(MAX_VECTOR_BYTES_IN_MEMORY / (dimensions * 4)));
+
+export const toVector = (values: ArrayLike<number>): Float32Array => (values instanceof Float32Array ? values : Float32Array.from(values));
+
+// Scales a vector to unit length, so cosine similarity becomes a dot product. Vectors that already have unit
+// length (and zero vectors) are returned as they are.
+export const normalizeVector = (values: ArrayLike<number>): Float32Array => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i] * values[i];
+  const norm = Math.sqrt(sum);
+  if (norm === 0 || Math.abs(norm - 1) < 1e-4) return toVector(values);
+
+  const vector = new Float32Array(values.length);
+  for (let i = 0; i < values.length; i++) vector[i] = values[i] / norm;
+  return vector;
+};
+
+// Symmetric quantization: value ≈ byte * scale, where scale maps the largest magnitude to 127
+const getScale = (vector: Float32Array): number => {
+  let max = 0;
+  for (let i = 0; i < vector.length; i++) max = Math.max(max, Math.abs(vector[i]));
+  return max / 127 || 1;
+};
+
+const quantize = (vector: Float32Array): { scale: number; values: Int8Array } => {
+  const scale = getScale(vector);
+  const values = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) values[i] = Math.round(vector[i] / scale);
+  return { scale, values };
+};
+
+const dequantize = (values: Int8Array, scale: number, target: Float32Array): void => {
+  for (let i = 0; i < values.length; i++) target[i] = values[i] * scale;
+};
+
+// A vector as a database BLOB: float32 values, or a float32 scale followed by int8 values
+export const encodeVector = (vector: Float32Array, format: VectorFormat): Buffer => {
+  if (format === "float32") return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+
+  const { scale, values } = quantize(vector);
+  const blob = Buffer.alloc(4 + values.length);
+  blob.writeFloatLE(scale, 0);
+  blob.set(new Uint8Array(values.buffer), 4);
+  return blob;
+};
+
+// Decodes a BLOB written by encodeVector into `target` (default: a new array). The format follows from the BLOB size.
+export const decodeVector = (blob: Uint8Array, dimensions: number, target: Float32Array = new Float32Array(dimensions)): Float32Array => {
+  if (blob.byteLength === dimensions * 4) {
+    target.set(new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength)));
+  } else if (blob.byteLength === dimensions + 4) {
+    const scale = Buffer.from(blob.buffer, blob.byteOffset, 4).readFloatLE(0);
+    dequantize(new Int8Array(blob.buffer, blob.byteOffset + 4, dimensions), scale, target);
+  } else {
+    throw new Error(`Vector BLOB of ${blob.byteLength} bytes does not hold ${dimensions} dimensions`);
+  }
+  return target;
+};
+
+// Vector file layout (little-endian):
+//   header  "RAGV" | version u8 | format u8 (0 float32, 1 int8) | reserved u16 | count u32 | index length u32
+//   index   UTF-8 JSON [[id, dimensions], ...], zero-padded to a multiple of 4 bytes
+//   data    float32: all values back to back; int8: one float32 scale per vector, then all values
+// Files written by appendVectorFile hold several such blocks back to back.
+const MAGIC = "RAGV";
+const VERSION = 1;
+const HEADER_BYTES = 16;
+const FORMAT_CODES: VectorFormat[] = ["float32", "int8"];
+
+const align4 = (bytes: number): number => Math.ceil(bytes / 4) * 4;
+
+// Vector data is read and written in pieces of this size, so a file never has to fit in one buffer
+const IO_CHUNK_BYTES = 4 * 1024 * 1024;
+
+const writeAll = (fd: number, bytes: Uint8Array): void => {
+  let written = 0;
+  while (written < bytes.length) written += fs.writeSync(fd, bytes, written, bytes.length - written);
+};
+
+const readExactly = (fd: number, target: Uint8Array, position: number): void => {
+  let read = 0;
+  while (read < target.length) {
+    const bytes = fs.readSync(fd, target, read, target.length - read, position + read);
+    if (bytes === 0) throw new Error(`Vector file ends at byte ${position + read}`);
+    read += bytes;
+  }
+};
+
+const writeVectors = (fd: number, entries: Array<[string, Float32Array]>, format: VectorFormat): void => {
+  const index = Buffer.from(JSON.stringify(entries.map(([id, vector]) => [id, vector.length])));
+  const head = Buffer.alloc(HEADER_BYTES + align4(index.length));
+  head.write(MAGIC, 0, "ascii");
+  head.writeUInt8(VERSION, 4);
+  head.writeUInt8(FORMAT_CODES.indexOf(format), 5);
+  head.writeUInt32LE(entries.length, 8);
+  head.writeUInt32LE(index.length, 12);
+  index.copy(head, HEADER_BYTES);
+  writeAll(fd, head);
+
+  const chunk = Buffer.allocUnsafe(IO_CHUNK_BYTES);
+  let used = 0;
+  const put = (bytes: Uint8Array): void => {
+    if (used + bytes.length > chunk.length) {
+      writeAll(fd, chunk.subarray(0, used));
+      used = 0;
+    }
+    if (bytes.length > chunk.length) {
+      writeAll(fd, bytes);
+    } else {
+      chunk.set(bytes, used);
+      used += bytes.length;
+    }
+  };
+
+  if (format === "float32") {
+    entries.forEach(([, vector]) => put(new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength)));
+  } else {
+    // The scales come before all values, so they are taken in a first pass and the values quantized in a second
+    const scales = Buffer.alloc(entries.length * 4);
+    entries.forEach(([, vector], i) => scales.writeFloatLE(getScale(vector), i * 4));
+    put(scales);
+    entries.forEach(([, vector]) => {
+      const { values } = quantize(vector);
+      put(new Uint8Array(values.buffer));
+    });
+  }
+  writeAll(fd, chunk.subarray(0, used));
+};
+
+// Atomically writes vectors keyed by ID, keeping `backups` previous versions like every other index file
+export const writeVectorFile = (filePath: string, entries: Array<[string, Float32Array]>, format: VectorFormat, backups: number = BACKUP_COUNT): void =>
+  writeFileAtomic(filePath, (fd) => writeVectors(fd, entries, format), backups);
+
+// Adds vectors to the end of a vector file as a new block, creating the file if needed. Unlike writeVectorFile this
+// is not atomic: an interrupted append leaves a file that cannot be read.
+export const appendVectorFile = (filePath: string, entries: Array<[string, Float32Array]>, format: VectorFormat): void => {
+  const fd = fs.openSync(filePath, "a");
+  try {
+    writeVectors(fd, entries, format);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+// Reads the block that starts at byte `start`; all of its vectors are views into a single contiguous Float32Array,
+// so loading tens of thousands of vectors costs one allocation instead of one array per vector
+const readBlock = (fd: number, fileSize: number, start: number, filePath: string): { entries: Array<[string, Float32Array]>; end: number } => {
+  const head = Buffer.alloc(HEADER_BYTES);
+  if (fileSize - start < HEADER_BYTES) throw new Error(`${filePath} is not a vector file`);
+  readExactly(fd, head, start);
+  if (head.toString("ascii", 0, 4) !== MAGIC) throw new Error(`${filePath} is not a vector file`);
+  if (head.readUInt8(4) !== VERSION) {
+    throw new Error(`Unsupported vector file version ${head.readUInt8(4)}`);
+  }
+  const format = FORMAT_CODES[head.readUInt8(5)];
+  if (!format) throw new Error(`Unknown vector format code ${head.readUInt8(5)}`);
+
+  const count = head.readUInt32LE(8);
+  const indexLength = head.readUInt32LE(12);
+  if (fileSize < start + HEADER_BYTES + indexLength) throw new Error(`Vector file is truncated: ${fileSize} bytes`);
+  const indexBytes = Buffer.alloc(indexLength);
+  readExactly(fd, indexBytes, start + HEADER_BYTES);
+  const index: Array<[string, number]> = JSON.parse(indexBytes.toString("utf-8"));
+  if (index.length !== count) throw new Error(`Vector file index lists ${index.length} of ${count} vectors`);
+
+  const totalValues = index.reduce((sum, [, dimensions]) => sum + dimensions, 0);
+  const dataOffset = start + HEADER_BYTES + align4(indexLength);
+  const dataBytes = format === "float32" ? totalValues * 4 : count * 4 + totalValues;
+  if (fileSize < dataOffset + dataBytes) throw new Error(`Vector file is truncated: ${fileSize} of ${dataOffset + dataBytes} bytes`);
+
+  const values = new Float32Array(totalValues);
+  if (format === "float32") {
+    const bytes = new Uint8Array(values.buffer);
+    for (let offset = 0; offset < bytes.length; offset += IO_CHUNK_BYTES) {
+      readExactly(fd, bytes.subarray(offset, offset + IO_CHUNK_BYTES), dataOffset + offset);
+    }
+  } else {
+    const scales = Buffer.alloc(count * 4);
+    readExactly(fd, scales, dataOffset);
+    const chunk = Buffer.allocUnsafe(IO_CHUNK_BYTES);
+    let position = dataOffset + count * 4;
+    let offset = 0;
+    let i = 0;
+    while (i < count) {
+      // Whole vectors per read; a vector larger than a chunk is read on its own
+      let end = i + 1;
+      let bytes = index[i][1];
+      while (end < count && bytes + index[end][1] <= chunk.length) bytes += index[end++][1];
+      const piece = bytes <= chunk.length ? chunk.subarray(0, bytes) : Buffer.allocUnsafe(bytes);
+      readExactly(fd, piece, position);
+      position += bytes;
+
+      let pieceOffset = 0;
+      for (; i < end; i++) {
+        const dimensions = index[i][1];
+        dequantize(new Int8Array(piece.buffer, piece.byteOffset + pieceOffset, dimensions), scales.readFloatLE(i * 4), values.subarray(offset, offset + dimensions));
+        pieceOffset += dimensions;
+        offset += dimensions;
+      }
+    }
+  }
+
+  let offset = 0;
+  const entries = index.map(([id, dimensions]): [string, Float32Array] => {
+    const vector = values.subarray(offset, offset + dimensions);
+    offset += dimensions;
+    return [id, vector];
+  });
+  return { entries, end: dataOffset + dataBytes };
+};
+
+// Reads all blocks of a vector file in IO_CHUNK_BYTES pieces, so the file is never held in memory next to its
+// vectors. An ID can occur in several blocks; its last entry is the current one.
+export const readVectorFile = (filePath: string): Array<[string, Float32Array]> => {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const entries: Array<[string, Float32Array]> = [];
+    let position = 0;
+    do {
+      const block = readBlock(fd, fileSize, position, filePath);
+      block.entries.forEach((entry) => entries.push(entry));
+      position = block.end;
+    } while (position < fileSize);
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+};